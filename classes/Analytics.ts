@@ -0,0 +1,170 @@
+import {Class} from "./Class";
+import {CsvFormat} from "./CsvFormat";
+import {GroupField, IGroupStats, ISectionFill} from "../interfaces/IAnalytics";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the Analytics class is given invalid arguments or data.
+ */
+class AnalyticsError extends ValidationError {}
+
+/**
+ * Columns whose values are ratios, formatted as percentages in Markdown tables.
+ */
+const RATIO_COLUMNS = ['fillRatio'];
+
+/**
+ * Enrollment statistics over a list of classes, e.g. the fill rate by subject or the most oversubscribed sections.
+ * Results are plain objects which can be converted to CSV or Markdown tables.
+ * @example
+ * const analytics = new Analytics(scraper.classData);
+ * console.log(Analytics.toMarkdown(analytics.groupBy('subject')));
+ * console.log(Analytics.toCsv(new Analytics(scraper.findClassesByAttribute('C200')).overfilled(5)));
+ */
+export class Analytics {
+    private _classes: Class[];
+
+    constructor(classes: Class[]) {
+        this._classes = classes;
+    }
+
+    /**
+     * Returns the statistics of every class together.
+     */
+    public totals(): IGroupStats {
+        return Analytics.stats('All', this._classes);
+    }
+
+    /**
+     * Returns the statistics of each group, sorted by group. Sections with several attributes count towards each of
+     * them, and sections without attributes are grouped as "(none)".
+     * @param field
+     */
+    public groupBy(field: GroupField): IGroupStats[] {
+        const fields: { [field in GroupField]: (classEntry: Class) => (string | number)[] } = {
+            subject: classEntry => [classEntry.subject],
+            instructor: classEntry => [classEntry.instructor],
+            attribute: classEntry => classEntry.attributes.filter(Boolean),
+            credits: classEntry => [classEntry.credits],
+            term: classEntry => [classEntry.term]
+        };
+        const keys = fields[field];
+        if (!keys) throw new AnalyticsError(`Unknown field ${field}. Must be subject, instructor, attribute, credits or term.`);
+
+        const groups = new Map<string, Class[]>();
+        for (const classEntry of this._classes) {
+            const values = keys(classEntry).map(value => value === null || value === undefined || value === '' || Number.isNaN(value) ? '(none)' : String(value));
+            for (const value of values.length ? values : ['(none)']) {
+                if (!groups.has(value)) groups.set(value, []);
+                groups.get(value).push(classEntry);
+            }
+        }
+
+        return [...groups.entries()]
+            .map(([group, classes]) => Analytics.stats(group, classes))
+            .sort((a, b) => a.group.localeCompare(b.group, undefined, { numeric: true }));
+    }
+
+    /**
+     * Returns the fullest sections, highest fill ratio first. Sections without projected enrollment are left out.
+     * @param limit - Maximum number of sections. Defaults to 10.
+     * @param minRatio - Only sections at least this full. Defaults to 1 (full or oversubscribed).
+     */
+    public overfilled(limit: number = 10, minRatio: number = 1): ISectionFill[] {
+        return this.fills()
+            .filter(fill => fill.fillRatio >= minRatio)
+            .sort((a, b) => b.fillRatio - a.fillRatio)
+            .slice(0, limit);
+    }
+
+    /**
+     * Returns the emptiest sections, lowest fill ratio first. Sections without projected enrollment are left out.
+     * @param limit - Maximum number of sections. Defaults to 10.
+     * @param maxRatio - Only sections at most this full. Defaults to 0.5.
+     */
+    public underfilled(limit: number = 10, maxRatio: number = 0.5): ISectionFill[] {
+        return this.fills()
+            .filter(fill => fill.fillRatio <= maxRatio)
+            .sort((a, b) => a.fillRatio - b.fillRatio)
+            .slice(0, limit);
+    }
+
+    /**
+     * Converts results to CSV with a header row.
+     * @param rows - Results of groupBy(), overfilled() or underfilled().
+     */
+    public static toCsv(rows: (IGroupStats | ISectionFill)[]): string {
+        if (!rows.length) return '';
+
+        const columns = Object.keys(rows[0]);
+        return CsvFormat.stringify([columns, ...rows.map(row => columns.map(column => {
+            const value: string | number | null = row[column];
+            if (value === null || value === undefined) return '';
+            return typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(4) : String(value);
+        }))]);
+    }
+
+    /**
+     * Converts results to a Markdown table. Ratios are shown as percentages.
+     * @param rows - Results of groupBy(), overfilled() or underfilled().
+     */
+    public static toMarkdown(rows: (IGroupStats | ISectionFill)[]): string {
+        if (!rows.length) return '';
+
+        const columns = Object.keys(rows[0]);
+        const cell = (column: string, value: string | number | null) => {
+            if (value === null || value === undefined) return '';
+            if (RATIO_COLUMNS.includes(column) && typeof value === 'number') return `${(value * 100).toFixed(1)}%`;
+            return String(value).replace(/\|/g, '\\|');
+        };
+
+        return [
+            `| ${columns.join(' | ')} |`,
+            `| ${columns.map(column => typeof rows[0][column] === 'number' ? '---:' : '---').join(' | ')} |`,
+            ...rows.map(row => `| ${columns.map(column => cell(column, row[column])).join(' | ')} |`)
+        ].join('\n') + '\n';
+    }
+
+    /**
+     * Returns the fill of every section with projected enrollment.
+     * @private
+     */
+    private fills(): ISectionFill[] {
+        return this._classes
+            .filter(classEntry => classEntry.projectedEnrollment > 0 && Number.isFinite(classEntry.currentEnrollment))
+            .map(classEntry => ({
+                crn: classEntry.crn,
+                courseID: classEntry.courseID,
+                title: classEntry.title,
+                instructor: classEntry.instructor,
+                projectedEnrollment: classEntry.projectedEnrollment,
+                currentEnrollment: classEntry.currentEnrollment,
+                seatsAvailable: classEntry.seatsAvailable,
+                fillRatio: classEntry.currentEnrollment / classEntry.projectedEnrollment,
+                status: classEntry.status
+            }));
+    }
+
+    /**
+     * Computes the statistics of a group. Unparseable numbers count as 0.
+     * @private
+     */
+    private static stats(group: string, classes: Class[]): IGroupStats {
+        const sum = (field: 'projectedEnrollment' | 'currentEnrollment' | 'seatsAvailable') =>
+            classes.reduce((total, classEntry) => total + (Number.isFinite(classEntry[field]) ? classEntry[field] : 0), 0);
+
+        const projectedEnrollment = sum('projectedEnrollment');
+        const currentEnrollment = sum('currentEnrollment');
+
+        return {
+            group,
+            sections: classes.length,
+            projectedEnrollment,
+            currentEnrollment,
+            fillRatio: projectedEnrollment > 0 ? currentEnrollment / projectedEnrollment : null,
+            seatsRemaining: sum('seatsAvailable'),
+            open: classes.filter(classEntry => classEntry.status === 'OPEN').length,
+            closed: classes.filter(classEntry => classEntry.status === 'CLOSED').length
+        };
+    }
+}
@@ -0,0 +1,320 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import {EventEmitter} from "events";
+import {AddressInfo} from "net";
+import {Class} from "./Class";
+import type {Scraper} from "../scraper";
+import {ClassQuery} from "./ClassQuery";
+import {DAYS} from "./Meeting";
+import {Day} from "../interfaces/IMeeting";
+import {ApiResponse, IClassesResponse, IHealth, IServerOptions, ITermsResponse} from "../interfaces/IServer";
+
+/**
+ * Thrown while handling a request. Results in a JSON error response with the given status.
+ */
+class HttpError extends Error {
+    public readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+        this.name = this.constructor.name;
+        Error.captureStackTrace(this, this.constructor);
+    }
+}
+
+/**
+ * Query parameters of /classes, matching the findClassesBy*() methods. All given filters must match.
+ */
+const CLASS_FILTERS: { [param: string]: (query: ClassQuery, value: string) => void } = {
+    crn: (query, value) => query.equals('crn', value),
+    courseID: (query, value) => query.ofCourse(value),
+    attribute: (query, value) => query.hasAnyAttribute([value]),
+    instructor: (query, value) => query.equals('instructor', value),
+    credits: (query, value) => query.where('credits', '=', ApiServer.number('credits', value)),
+    times: (query, value) => query.equals('times', value),
+    projectedEnrollment: (query, value) => query.where('projectedEnrollment', '=', ApiServer.number('projectedEnrollment', value)),
+    currentEnrollment: (query, value) => query.where('currentEnrollment', '=', ApiServer.number('currentEnrollment', value)),
+    seatsAvailable: (query, value) => query.where('seatsAvailable', '=', ApiServer.number('seatsAvailable', value)),
+    status: (query, value) => {
+        if (value !== 'OPEN' && value !== 'CLOSED') throw new HttpError(400, 'status must be OPEN or CLOSED.');
+        query.equals('status', value);
+    },
+    term: (query, value) => query.where('term', '=', ApiServer.number('term', value)),
+    subject: (query, value) => query.equals('subject', value.toUpperCase()),
+    day: (query, value) => {
+        if (!DAYS.includes(value as Day)) throw new HttpError(400, `day must be one of ${DAYS.join(', ')}.`);
+        query.filter(classEntry => classEntry.meetsOn(value as Day));
+    },
+    startsAfter: (query, value) => query.filter(classEntry => ApiServer.time(() => classEntry.startsAfter(value))),
+    endsBefore: (query, value) => query.filter(classEntry => ApiServer.time(() => classEntry.endsBefore(value)))
+};
+
+/**
+ * Typed events of the ApiServer class. Refresh is emitted after data was loaded or scraped, error when it failed.
+ */
+export interface ApiServer {
+    on(event: 'refresh', listener: (classes: number) => void): this;
+    on(event: 'error', listener: (error: Error) => void): this;
+    once(event: 'refresh', listener: (classes: number) => void): this;
+    once(event: 'error', listener: (error: Error) => void): this;
+    emit(event: 'refresh', classes: number): boolean;
+    emit(event: 'error', error: Error): boolean;
+}
+
+/**
+ * Serves the data of a scraper as a read-only JSON HTTP API, so several tools can share one copy of the data instead
+ * of each scraping W&M. Data is loaded from a .json file and/or scraped on a schedule.
+ * Responses carry an ETag, and requests with a matching If-None-Match header get an empty 304 response.
+ *
+ * Endpoints: GET /health, /terms, /subjects, /classes (filtered by the query string, e.g. ?subject=CSCI&status=OPEN,
+ * paginated with limit and offset) and /classes/:crn (the latest term unless ?term= is given).
+ * @example
+ * const server = new ApiServer(scraper, { dataFile: './courses.json', port: 3000, refreshInterval: 15 * 60000 });
+ * await server.start();
+ */
+export class ApiServer extends EventEmitter {
+    private _scraper: Scraper;
+    private _options: IServerOptions;
+    private _server: http.Server = null;
+    private _timer: NodeJS.Timeout = null;
+    private _refreshing: Promise<void> = null;
+    private _lastError: string = null;
+
+    constructor(scraper: Scraper, options: IServerOptions = {}) {
+        super();
+        this._scraper = scraper;
+        this._options = { port: 3000, host: '127.0.0.1', ...options };
+    }
+
+    /**
+     * Loads the data file (or scrapes if there is none and no data yet), starts listening and schedules refreshes.
+     * Rejects without listening if the data can't be loaded. Returns the port, which is useful with port 0.
+     */
+    public async start(): Promise<number> {
+        if (this._server) return (this._server.address() as AddressInfo).port;
+
+        if (this._options.dataFile || this._scraper.classData.length === 0) await this.refresh();
+
+        this._server = http.createServer((request, response) => this.handle(request, response));
+        await new Promise<void>((resolve, reject) => {
+            this._server.once('error', reject);
+            this._server.listen(this._options.port, this._options.host, () => {
+                this._server.removeListener('error', reject);
+                resolve();
+            });
+        });
+
+        if (this._options.refreshInterval) this.schedule();
+        return (this._server.address() as AddressInfo).port;
+    }
+
+    /**
+     * Stops refreshing and closes the server.
+     */
+    public async stop(): Promise<void> {
+        if (this._timer) clearTimeout(this._timer);
+        this._timer = null;
+
+        if (!this._server) return;
+        const server = this._server;
+        this._server = null;
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Reloads the data file, or scrapes when there is none. The previous data is served until the new data is
+     * complete, and kept if the refresh fails. Concurrent calls share the refresh in progress.
+     * Rejects if the refresh fails. Failures of scheduled refreshes are emitted as error events instead.
+     */
+    public refresh(): Promise<void> {
+        if (this._refreshing) return this._refreshing;
+
+        this._refreshing = (async () => {
+            try {
+                if (this._options.dataFile) {
+                    await this._scraper.loadFromJson(this._options.dataFile);
+                } else {
+                    const classes: Class[] = [];
+                    for await (const classEntry of this._scraper.scrape(this._options.scrape ?? {})) classes.push(classEntry);
+                    this._scraper.classData = classes;
+                    this._scraper.scrapedAt = new Date();
+                }
+                this._lastError = null;
+                this.emit('refresh', this._scraper.classData.length);
+            } catch (e) {
+                this._lastError = e instanceof Error ? e.message : String(e);
+                throw e;
+            } finally {
+                this._refreshing = null;
+            }
+        })();
+
+        return this._refreshing;
+    }
+
+    /**
+     * Returns the health of the server, as served by /health.
+     */
+    public health(): IHealth {
+        return {
+            status: this._scraper.classData.length ? 'ok' : 'empty',
+            classes: this._scraper.classData.length,
+            lastUpdated: this._scraper.scrapedAt ? this._scraper.scrapedAt.toISOString() : null,
+            refreshing: this._refreshing !== null,
+            lastError: this._lastError
+        };
+    }
+
+    /**
+     * Parses a numeric query parameter. Used by the /classes filters.
+     * @param param
+     * @param value
+     */
+    public static number(param: string, value: string): number {
+        if (value.trim() === '' || isNaN(Number(value))) throw new HttpError(400, `${param} must be a number.`);
+        return Number(value);
+    }
+
+    /**
+     * Runs a time comparison, turning invalid times into a 400 response. Used by the /classes filters.
+     * @param compare
+     */
+    public static time(compare: () => boolean): boolean {
+        try {
+            return compare();
+        } catch (e) {
+            throw new HttpError(400, 'startsAfter and endsBefore must be times like "09:30".');
+        }
+    }
+
+    /**
+     * Schedules the next refresh.
+     * @private
+     */
+    private schedule(): void {
+        this._timer = setTimeout(async () => {
+            try {
+                await this.refresh();
+            } catch (e) {
+                this.reportError(e);
+            }
+            if (this._server) this.schedule();
+        }, this._options.refreshInterval);
+    }
+
+    /**
+     * Emits an error only if someone is listening, so that a failed refresh doesn't crash the process.
+     * @private
+     */
+    private reportError(error: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', error);
+    }
+
+    /**
+     * Routes a request and writes the response.
+     * @private
+     */
+    private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+        let status = 200;
+        let body: ApiResponse;
+
+        try {
+            if (request.method !== 'GET' && request.method !== 'HEAD') {
+                response.setHeader('Allow', 'GET, HEAD');
+                throw new HttpError(405, 'Only GET and HEAD requests are supported.');
+            }
+
+            const url = new URL(request.url, 'http://localhost');
+            const path = url.pathname.replace(/\/+$/, '') || '/';
+            const crn = /^\/classes\/([^/]+)$/.exec(path);
+
+            if (path === '/health') body = this.health();
+            else if (path === '/terms') body = this.terms();
+            else if (path === '/subjects') body = this.subjects();
+            else if (path === '/classes') body = this.classes(url.searchParams);
+            else if (crn) body = this.classByCrn(decodeURIComponent(crn[1]), url.searchParams.get('term'));
+            else throw new HttpError(404, `Unknown endpoint ${path}. Try /health, /terms, /subjects, /classes or /classes/:crn.`);
+        } catch (e) {
+            status = e instanceof HttpError ? e.status : 500;
+            body = { error: e instanceof Error ? e.message : String(e) };
+        }
+
+        const json = JSON.stringify(body);
+        const etag = `"${crypto.createHash('sha1').update(json).digest('base64url')}"`;
+
+        response.setHeader('Content-Type', 'application/json; charset=utf-8');
+        response.setHeader('Cache-Control', 'no-cache');
+        response.setHeader('ETag', etag);
+        if (this._scraper.scrapedAt) response.setHeader('Last-Modified', this._scraper.scrapedAt.toUTCString());
+
+        // Clients which already have this version get an empty response.
+        const ifNoneMatch = request.headers['if-none-match'];
+        if (status === 200 && ifNoneMatch && ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, '')).some(tag => tag === etag || tag === '*')) {
+            response.writeHead(304);
+            response.end();
+            return;
+        }
+
+        response.writeHead(status, { 'Content-Length': Buffer.byteLength(json) });
+        response.end(request.method === 'HEAD' ? undefined : json);
+    }
+
+    /**
+     * @private
+     */
+    private terms(): ITermsResponse {
+        const known = this._scraper.courselistData.terms;
+        const all = known.all
+            ? [...known.all]
+            : [...new Set(this._scraper.classData.map(classEntry => classEntry.term).filter(term => term !== null))].sort();
+
+        return { latest: known.latest ?? (all.length ? Math.max(...all) : null), all };
+    }
+
+    /**
+     * @private
+     */
+    private subjects(): string[] {
+        return this._scraper.courselistData.subjects
+            ?? [...new Set(this._scraper.classData.map(classEntry => classEntry.subject))].sort();
+    }
+
+    /**
+     * @private
+     */
+    private classes(params: URLSearchParams): IClassesResponse {
+        const query = this._scraper.query();
+
+        for (const [param, value] of params) {
+            if (param === 'limit' || param === 'offset') continue;
+            if (!CLASS_FILTERS[param]) throw new HttpError(400, `Unknown filter ${param}. Must be one of ${Object.keys(CLASS_FILTERS).join(', ')}, limit or offset.`);
+            CLASS_FILTERS[param](query, value);
+        }
+
+        const total = query.count();
+        const offset = params.has('offset') ? ApiServer.number('offset', params.get('offset')) : 0;
+        if (!Number.isInteger(offset) || offset < 0) throw new HttpError(400, 'offset must be a positive integer.');
+        query.offset(offset);
+
+        if (params.has('limit')) {
+            const limit = ApiServer.number('limit', params.get('limit'));
+            if (!Number.isInteger(limit) || limit < 0) throw new HttpError(400, 'limit must be a positive integer.');
+            query.limit(limit);
+        }
+
+        return { total, offset, classes: query.run() };
+    }
+
+    /**
+     * @private
+     */
+    private classByCrn(crn: string, term: string): Class {
+        const query = this._scraper.query().equals('crn', crn).sortBy('term', 'desc');
+        if (term !== null) query.where('term', '=', ApiServer.number('term', term));
+
+        const found = query.first();
+        if (!found) throw new HttpError(404, `CRN ${crn} is not found.`);
+        return found;
+    }
+}
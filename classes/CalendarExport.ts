@@ -0,0 +1,266 @@
+import * as fs from "fs";
+import {Class} from "./Class";
+import {Meeting} from "./Meeting";
+import {Day} from "../interfaces/IMeeting";
+import {CalendarDate, ICalendarOptions, ICalendarWarning} from "../interfaces/ICalendar";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the CalendarExport class is given invalid arguments or data.
+ */
+class CalendarError extends ValidationError {}
+
+/**
+ * Time zone of every event. W&M is in Williamsburg, Virginia.
+ */
+const TIMEZONE = 'America/New_York';
+
+/**
+ * Definition of the time zone with the daylight saving rules in effect since 2007, as required by RFC 5545.
+ */
+const VTIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${TIMEZONE}`,
+    'BEGIN:DAYLIGHT',
+    'TZOFFSETFROM:-0500',
+    'TZOFFSETTO:-0400',
+    'TZNAME:EDT',
+    'DTSTART:20070311T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+    'END:DAYLIGHT',
+    'BEGIN:STANDARD',
+    'TZOFFSETFROM:-0400',
+    'TZOFFSETTO:-0500',
+    'TZNAME:EST',
+    'DTSTART:20071104T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+    'END:STANDARD',
+    'END:VTIMEZONE'
+];
+
+/**
+ * iCalendar day codes of the days of the Open Course List.
+ */
+const WEEKDAYS: { [day in Day]: string } = { M: 'MO', T: 'TU', W: 'WE', R: 'TH', F: 'FR', S: 'SA', U: 'SU' };
+
+/**
+ * Days of the Open Course List by Date.getUTCDay().
+ */
+const DAY_OF_WEEK: Day[] = ['U', 'M', 'T', 'W', 'R', 'F', 'S'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Exports sections to an RFC 5545 iCalendar (.ics) file. Every meeting becomes a weekly recurring event from the
+ * start to the end date, skipping holidays. Sections which can't be fully added are listed in the warnings.
+ * @example
+ * const calendar = new CalendarExport(sections, { start: '2024-01-24', end: '2024-05-03', holidays: [{ start: '2024-03-09', end: '2024-03-17' }] });
+ * calendar.save('./spring.ics');
+ * console.log(calendar.warningReport());
+ */
+export class CalendarExport {
+    private _classes: Class[];
+    private _start: number; // UTC midnight timestamps of the dates
+    private _end: number;
+    private _holidays: number[];
+    private _name: string;
+    private _warnings: ICalendarWarning[] = [];
+
+    constructor(classes: Class[], options: ICalendarOptions) {
+        if (!options || options.start === undefined || options.end === undefined) throw new CalendarError('A start and end date must be given.');
+
+        this._classes = classes;
+        this._start = CalendarExport.toDay(options.start);
+        this._end = CalendarExport.toDay(options.end);
+        if (this._end < this._start) throw new CalendarError('The end date must not be before the start date.');
+
+        this._holidays = (options.holidays ?? []).flatMap(holiday => {
+            if (typeof holiday === 'string' || holiday instanceof Date) return [CalendarExport.toDay(holiday)];
+
+            const start = CalendarExport.toDay(holiday.start);
+            const end = CalendarExport.toDay(holiday.end);
+            if (end < start) throw new CalendarError('The end of a holiday must not be before its start.');
+            return Array.from({ length: (end - start) / DAY_MS + 1 }, (_, i) => start + i * DAY_MS);
+        });
+        this._name = options.name ?? 'W&M Classes';
+
+        for (const classEntry of classes) {
+            if (classEntry.timesStatus === 'TBA') this.warn(classEntry, 'TBA');
+            else if (classEntry.timesStatus === 'UNPARSEABLE') this.warn(classEntry, 'UNPARSEABLE');
+
+            if (classEntry.meetings.length && classEntry.meetings.every(meeting => this.firstDay(meeting) === null))
+                this.warn(classEntry, 'NO_MEETINGS');
+        }
+    }
+
+    /**
+     * Get the sections which couldn't be fully added to the calendar.
+     */
+    get warnings(): ICalendarWarning[] {
+        return this._warnings;
+    }
+
+    /**
+     * Adds a warning for a section, e.g. for a CRN which couldn't be found.
+     * @param classEntry - Only the CRN is needed for NOT_FOUND.
+     * @param reason
+     */
+    public warn(classEntry: Class | { crn: string }, reason: ICalendarWarning['reason']): void {
+        const found = classEntry instanceof Class;
+        this._warnings.push({
+            crn: classEntry.crn,
+            courseID: found ? classEntry.courseID : null,
+            title: found ? classEntry.title : null,
+            times: found ? classEntry.times : null,
+            reason
+        });
+    }
+
+    /**
+     * Returns the warnings as one line each, or an empty string if there are none.
+     */
+    public warningReport(): string {
+        const reasons: { [reason in ICalendarWarning['reason']]: string } = {
+            TBA: 'times are TBA',
+            UNPARSEABLE: 'times could not be understood, only the meetings which could be read were added',
+            NO_MEETINGS: 'no meeting falls between the start and end dates',
+            NOT_FOUND: 'CRN not found'
+        };
+
+        return this._warnings.map(warning => warning.reason === 'NOT_FOUND'
+            ? `CRN ${warning.crn}: ${reasons.NOT_FOUND}`
+            : `${warning.courseID} (CRN ${warning.crn}, "${warning.times}"): ${reasons[warning.reason]}`).join('\n');
+    }
+
+    /**
+     * Returns the contents of the .ics file.
+     */
+    public toString(): string {
+        const stamp = CalendarExport.formatUtc(Date.now());
+        const lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//wm-classes//Course Calendar//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            `X-WR-CALNAME:${CalendarExport.escape(this._name)}`,
+            `X-WR-TIMEZONE:${TIMEZONE}`,
+            ...VTIMEZONE
+        ];
+
+        for (const classEntry of this._classes) {
+            classEntry.meetings.forEach((meeting, index) => {
+                const first = this.firstDay(meeting);
+                if (first === null) return;
+
+                const excluded = this._holidays.filter(day =>
+                    day >= first && day <= this._end && meeting.meetsOn(DAY_OF_WEEK[new Date(day).getUTCDay()]));
+
+                lines.push(
+                    'BEGIN:VEVENT',
+                    `UID:${classEntry.term ?? 'term'}-${classEntry.crn}-${index}@wm-classes`,
+                    `DTSTAMP:${stamp}`,
+                    `DTSTART;TZID=${TIMEZONE}:${CalendarExport.formatLocal(first, meeting.start)}`,
+                    `DTEND;TZID=${TIMEZONE}:${CalendarExport.formatLocal(first, meeting.end)}`,
+                    // UNTIL must be in UTC. 04:00 UTC of the following day is still on the end date in Virginia.
+                    `RRULE:FREQ=WEEKLY;BYDAY=${meeting.days.map(day => WEEKDAYS[day]).join(',')};UNTIL=${CalendarExport.formatUtc(this._end + DAY_MS + 4 * 60 * 60 * 1000 - 1000)}`,
+                    ...excluded.map(day => `EXDATE;TZID=${TIMEZONE}:${CalendarExport.formatLocal(day, meeting.start)}`),
+                    `SUMMARY:${CalendarExport.escape(`${classEntry.courseID} ${classEntry.title}`)}`,
+                    `DESCRIPTION:${CalendarExport.escape(`Instructor: ${classEntry.instructor}\nCRN: ${classEntry.crn}`)}`,
+                    ...(classEntry.location ? [`LOCATION:${CalendarExport.escape(classEntry.location)}`] : []),
+                    'END:VEVENT'
+                );
+            });
+        }
+
+        lines.push('END:VCALENDAR');
+        return lines.map(line => CalendarExport.fold(line)).join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Saves the calendar to a .ics file.
+     * @param saveLocation
+     */
+    public save(saveLocation: string): void {
+        if (saveLocation.endsWith('.ics') === false) saveLocation += '.ics'; // Add .ics extension if not already present.
+        fs.writeFileSync(saveLocation, this.toString());
+    }
+
+    /**
+     * Returns the first day on or after the start date on which the meeting takes place, or null if there is none
+     * before the end date.
+     * @private
+     */
+    private firstDay(meeting: Meeting): number {
+        for (let day = this._start; day <= this._end && day < this._start + 7 * DAY_MS; day += DAY_MS) {
+            if (meeting.meetsOn(DAY_OF_WEEK[new Date(day).getUTCDay()])) return day;
+        }
+        return null;
+    }
+
+    /**
+     * Converts a date into the UTC midnight timestamp of its calendar day. Strings must be in the form YYYY-MM-DD.
+     * Dates use their local calendar day.
+     * @private
+     */
+    private static toDay(date: CalendarDate): number {
+        if (date instanceof Date) {
+            if (isNaN(date.getTime())) throw new CalendarError('Invalid date.');
+            return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+        }
+
+        const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(typeof date === 'string' ? date.trim() : '');
+        const day = match ? Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : NaN;
+        if (isNaN(day) || new Date(day).getUTCDate() !== parseInt(match[3])) throw new CalendarError(`Invalid date ${date}. Must be in the form YYYY-MM-DD.`);
+        return day;
+    }
+
+    /**
+     * Formats a day and minutes since midnight as a local iCalendar date-time, e.g. 20240124T100000.
+     * @private
+     */
+    private static formatLocal(day: number, minutes: number): string {
+        return CalendarExport.formatUtc(day + minutes * 60 * 1000).slice(0, -1);
+    }
+
+    /**
+     * Formats a timestamp as a UTC iCalendar date-time, e.g. 20240124T150000Z.
+     * @private
+     */
+    private static formatUtc(timestamp: number): string {
+        return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    }
+
+    /**
+     * Escapes text values as required by RFC 5545.
+     * @private
+     */
+    private static escape(text: string): string {
+        return (text ?? '').replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+    }
+
+    /**
+     * Folds lines longer than 75 octets as required by RFC 5545, without splitting characters.
+     * @private
+     */
+    private static fold(line: string): string {
+        const parts: string[] = [];
+        let current = '';
+        let octets = 0;
+
+        for (const char of line) {
+            const size = Buffer.byteLength(char);
+            // Continuation lines start with a space, which counts towards their 75 octets.
+            if (octets + size > (parts.length ? 74 : 75)) {
+                parts.push(current);
+                current = '';
+                octets = 0;
+            }
+            current += char;
+            octets += size;
+        }
+        parts.push(current);
+
+        return parts.join('\r\n ');
+    }
+}
@@ -0,0 +1,289 @@
+import * as fs from "fs";
+import * as path from "path";
+import {Class} from "./Class";
+import {Term} from "./Term";
+import {ICatalogOptions} from "../interfaces/ICatalog";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the CatalogSite class is given invalid arguments or data.
+ */
+class CatalogError extends ValidationError {}
+
+/**
+ * Stylesheet inlined in every page, so that the site has no external assets.
+ */
+const STYLE = `
+body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; margin: 0; color: #1d1d1d; background: #fafafa; }
+header { background: #115740; color: #fff; padding: 12px 24px; display: flex; flex-wrap: wrap; gap: 16px; align-items: baseline; }
+header a { color: #fff; text-decoration: none; }
+header .site { font-weight: bold; font-size: 1.2em; }
+header nav { margin-left: auto; display: flex; gap: 16px; }
+main { padding: 16px 24px; }
+h1 { margin-top: 0; }
+.filter { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; margin-bottom: 12px; }
+.filter input[type=search] { padding: 6px 8px; min-width: 280px; font-size: 1em; }
+.count { color: #666; }
+table { border-collapse: collapse; width: 100%; background: #fff; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e2e2; vertical-align: top; }
+th { background: #f0f0f0; position: sticky; top: 0; }
+td.number { text-align: right; }
+tr[hidden] { display: none; }
+.OPEN { color: #1a7f37; font-weight: bold; }
+.CLOSED { color: #b42318; font-weight: bold; }
+footer { color: #666; padding: 16px 24px; font-size: 0.9em; }
+`;
+
+/**
+ * Script inlined in every page. Hides the table rows which don't contain every word of the filter box, and closed
+ * sections when "Open only" is checked.
+ */
+const SCRIPT = `
+(function () {
+    var input = document.getElementById('filter');
+    var openOnly = document.getElementById('open-only');
+    var count = document.getElementById('count');
+    var rows = document.querySelectorAll('tbody tr');
+
+    function update() {
+        var words = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+        var shown = 0;
+        for (var i = 0; i < rows.length; i++) {
+            var text = rows[i].textContent.toLowerCase();
+            var visible = words.every(function (word) { return text.indexOf(word) !== -1; }) &&
+                !(openOnly && openOnly.checked && rows[i].getAttribute('data-status') !== 'OPEN');
+            rows[i].hidden = !visible;
+            if (visible) shown++;
+        }
+        count.textContent = shown + ' of ' + rows.length + ' shown';
+    }
+
+    input.addEventListener('input', update);
+    if (openOnly) openOnly.addEventListener('change', update);
+    update();
+})();
+`;
+
+/**
+ * A static HTML site for browsing the sections of a term without running code: an index of subjects, one page per
+ * subject and per instructor, and a filter box on every page. Styles and scripts are inlined and links are relative,
+ * so the site works when opened straight from the filesystem.
+ * @example
+ * const site = new CatalogSite(scraper.classData, { term: 202420 });
+ * await site.save('./catalog'); // Open ./catalog/index.html in a browser
+ */
+export class CatalogSite {
+    private _classes: Class[];
+    private _title: string;
+    private _source: string;
+    private _term: number;
+    private _generatedAt: Date;
+    private _instructorFiles: Map<string, string> = new Map(); // Instructor → file name of their page
+
+    constructor(classes: Class[], options: ICatalogOptions = {}) {
+        const latest = classes.reduce((term, classEntry) => classEntry.term !== null && classEntry.term > (term ?? -Infinity) ? classEntry.term : term, null as number);
+
+        // Sections without a term are only listed if no section has one.
+        this._term = options.term ?? latest;
+        this._classes = classes
+            .filter(classEntry => this._term === null || classEntry.term === this._term)
+            .sort((a, b) => a.courseID.localeCompare(b.courseID, 'en', { numeric: true }) || a.crn.localeCompare(b.crn, 'en', { numeric: true }));
+        if (!this._classes.length) throw new CatalogError(options.term ? `There are no sections in term ${options.term}.` : 'There are no sections to list.');
+
+        this._title = options.title ?? 'W&M Course Catalog';
+        this._source = options.source ?? 'W&M';
+        this._generatedAt = options.generatedAt ?? new Date();
+
+        // Instructors whose names give the same file name are numbered. The index of instructors is taken.
+        const used = new Set<string>(['index']);
+        for (const instructor of [...new Set(this._classes.map(classEntry => classEntry.instructor).filter(Boolean))].sort()) {
+            const base = CatalogSite.slug(instructor) || 'instructor';
+            let file = base;
+            for (let i = 2; used.has(file); i++) file = `${base}-${i}`;
+
+            used.add(file);
+            this._instructorFiles.set(instructor, `${file}.html`);
+        }
+    }
+
+    /**
+     * Get the term of the site. Null if the sections have no term.
+     */
+    get term(): number {
+        return this._term;
+    }
+
+    /**
+     * Returns the HTML of every page by its path relative to the root of the site, e.g. "subjects/CSCI.html".
+     */
+    public pages(): { [file: string]: string } {
+        const pages: { [file: string]: string } = {};
+        const subjects = this.groupBy(classEntry => classEntry.subject ?? 'Other');
+        const instructors = this.groupBy(classEntry => classEntry.instructor);
+
+        pages['index.html'] = this.page('Subjects', '', [
+            this.filter('Filter subjects...', false),
+            '<table><thead><tr><th>Subject</th><th>Sections</th><th>Open</th><th>Seats Available</th></tr></thead><tbody>',
+            ...[...subjects].map(([subject, classes]) => `<tr><td><a href="subjects/${CatalogSite.subjectFile(subject)}">${escape(subject)}</a></td>` +
+                `<td class="number">${classes.length}</td><td class="number">${classes.filter(classEntry => classEntry.status === 'OPEN').length}</td>` +
+                `<td class="number">${classes.reduce((total, classEntry) => total + Math.max(0, classEntry.seatsAvailable ?? 0), 0)}</td></tr>`),
+            '</tbody></table>'
+        ].join('\n'));
+
+        for (const [subject, classes] of subjects)
+            pages[`subjects/${CatalogSite.subjectFile(subject)}`] = this.page(subject, '../', this.sectionTable(classes, '../'));
+
+        pages['instructors/index.html'] = this.page('Instructors', '../', [
+            this.filter('Filter instructors...', false),
+            '<table><thead><tr><th>Instructor</th><th>Sections</th><th>Subjects</th></tr></thead><tbody>',
+            ...[...instructors].filter(([instructor]) => instructor).map(([instructor, classes]) =>
+                `<tr><td><a href="${this._instructorFiles.get(instructor)}">${escape(instructor)}</a></td><td class="number">${classes.length}</td>` +
+                `<td>${escape([...new Set(classes.map(classEntry => classEntry.subject))].join(', '))}</td></tr>`),
+            '</tbody></table>'
+        ].join('\n'));
+
+        for (const [instructor, classes] of instructors) {
+            if (instructor) pages[`instructors/${this._instructorFiles.get(instructor)}`] = this.page(instructor, '../', this.sectionTable(classes, '../'));
+        }
+
+        return pages;
+    }
+
+    /**
+     * Saves every page to a directory, creating it if needed, and returns the number of pages.
+     * Open index.html in a browser to browse the site.
+     * @param directory
+     */
+    public async save(directory: string): Promise<number> {
+        const pages = this.pages();
+
+        await fs.promises.mkdir(path.join(directory, 'subjects'), { recursive: true });
+        await fs.promises.mkdir(path.join(directory, 'instructors'), { recursive: true });
+        for (const [file, html] of Object.entries(pages))
+            await fs.promises.writeFile(path.join(directory, ...file.split('/')), html);
+
+        return Object.keys(pages).length;
+    }
+
+    /**
+     * Returns a name made of lowercase letters, digits and dashes, e.g. "smith-john" for "Smith, John".
+     * @param text
+     */
+    public static slug(text: string): string {
+        return text
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+    }
+
+    /**
+     * Returns the file name of the page of a subject.
+     * @private
+     */
+    private static subjectFile(subject: string): string {
+        return `${subject.replace(/[^A-Za-z0-9_-]/g, '_')}.html`;
+    }
+
+    /**
+     * Groups the sections in order of the key, keeping the order of the sections within each group.
+     * @private
+     */
+    private groupBy(key: (classEntry: Class) => string): Map<string, Class[]> {
+        const groups = new Map<string, Class[]>();
+        for (const classEntry of this._classes) {
+            if (!groups.has(key(classEntry))) groups.set(key(classEntry), []);
+            groups.get(key(classEntry)).push(classEntry);
+        }
+
+        return new Map([...groups].sort(([a], [b]) => a.localeCompare(b)));
+    }
+
+    /**
+     * Returns the filter box shown above the table of a page.
+     * @private
+     */
+    private filter(placeholder: string, openOnly: boolean): string {
+        return '<div class="filter">' +
+            `<input type="search" id="filter" placeholder="${escape(placeholder)}" aria-label="Filter" autofocus>` +
+            (openOnly ? '<label><input type="checkbox" id="open-only"> Open only</label>' : '') +
+            '<span class="count" id="count"></span></div>';
+    }
+
+    /**
+     * Returns the table of sections of a subject or instructor page.
+     * @private
+     */
+    private sectionTable(classes: Class[], root: string): string {
+        const number = (value: number) => value === null || value === undefined ? '' : String(value);
+
+        const rows = classes.map(classEntry => {
+            const instructor = this._instructorFiles.has(classEntry.instructor)
+                ? `<a href="${root}instructors/${this._instructorFiles.get(classEntry.instructor)}">${escape(classEntry.instructor)}</a>`
+                : escape(classEntry.instructor);
+
+            return `<tr data-status="${escape(classEntry.status)}">` +
+                `<td>${escape(classEntry.crn)}</td>` +
+                `<td>${escape(classEntry.courseID)}</td>` +
+                `<td>${escape(classEntry.title)}</td>` +
+                `<td>${instructor}</td>` +
+                `<td>${escape(classEntry.attributes.filter(Boolean).join(', '))}</td>` +
+                `<td class="number">${number(classEntry.credits)}</td>` +
+                `<td>${escape(classEntry.timesStatus === 'TBA' ? 'TBA' : classEntry.times)}</td>` +
+                `<td class="number">${number(classEntry.currentEnrollment)} / ${number(classEntry.projectedEnrollment)}</td>` +
+                `<td class="number">${number(classEntry.seatsAvailable)}</td>` +
+                `<td class="${escape(classEntry.status)}">${escape(classEntry.status)}</td></tr>`;
+        });
+
+        return [
+            this.filter('Filter by course, title, instructor, attribute or times...', true),
+            '<table><thead><tr><th>CRN</th><th>Course</th><th>Title</th><th>Instructor</th><th>Attributes</th><th>Credits</th>' +
+            '<th>Times</th><th>Enrolled / Projected</th><th>Seats</th><th>Status</th></tr></thead><tbody>',
+            ...rows,
+            '</tbody></table>'
+        ].join('\n');
+    }
+
+    /**
+     * Returns a complete page with the shared header, footer, style and script.
+     * @param heading
+     * @param root - Relative path from the page to the root of the site, e.g. "../".
+     * @param content
+     * @private
+     */
+    private page(heading: string, root: string, content: string): string {
+        const term = this._term !== null ? Term.decode(this._term) : null;
+        const generated = this._generatedAt.toLocaleString('en-US', { timeZone: 'America/New_York', dateStyle: 'medium', timeStyle: 'short' });
+
+        return [
+            '<!DOCTYPE html>',
+            '<html lang="en">',
+            '<head>',
+            '<meta charset="utf-8">',
+            '<meta name="viewport" content="width=device-width, initial-scale=1">',
+            `<title>${escape(heading)} - ${escape(this._title)}</title>`,
+            `<style>${STYLE}</style>`,
+            '</head>',
+            '<body>',
+            `<header><a class="site" href="${root}index.html">${escape(this._title)}</a>${term ? `<span>${escape(term.label)}</span>` : ''}`,
+            `<nav><a href="${root}index.html">Subjects</a><a href="${root}instructors/index.html">Instructors</a></nav></header>`,
+            '<main>',
+            `<h1>${escape(heading)}</h1>`,
+            content,
+            '</main>',
+            `<footer>Data from the ${escape(this._source)} course list, scraped ${escape(generated)}.</footer>`,
+            `<script>${SCRIPT}</script>`,
+            '</body>',
+            '</html>'
+        ].join('\n') + '\n';
+    }
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ * @param text
+ */
+function escape(text: string): string {
+    return (text ?? '').replace(/[&<>"']/g, character => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[character]);
+}
@@ -0,0 +1,189 @@
+import * as fs from "fs";
+import {Class} from "./Class";
+import {JsonFormat} from "./JsonFormat";
+import {ValidationError} from "./ScraperError";
+import {ICheckpointFile, IRunReport} from "../interfaces/ICheckpoint";
+
+/**
+ * Version of the checkpoint file format. Bump when the format changes.
+ */
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * Records which subjects of a scrape are done, together with their sections, so that an interrupted or partially
+ * failed scrape can be resumed. The file is replaced atomically on every save, so it stays readable if the process dies.
+ */
+export class Checkpoint {
+    private _filepath: string;
+    private _state: ICheckpointFile;
+
+    private constructor(filepath: string, state: ICheckpointFile) {
+        this._filepath = filepath;
+        this._state = state;
+    }
+
+    /**
+     * Creates a checkpoint with every subject pending. Nothing is written until save() is called.
+     * @param filepath
+     * @param term
+     * @param params - Search filters of the scrape.
+     * @param subjects - In scrape order.
+     */
+    public static create(filepath: string, term: number, params: { [param: string]: string }, subjects: string[]): Checkpoint {
+        const now = new Date().toISOString();
+
+        return new Checkpoint(filepath, {
+            checkpointVersion: CHECKPOINT_VERSION,
+            term,
+            params,
+            startedAt: now,
+            updatedAt: now,
+            subjects: Object.fromEntries(subjects.map(subject => [subject, { status: 'pending', classes: [], error: null, attempts: 0 }]))
+        });
+    }
+
+    /**
+     * Reads a checkpoint file. Throws a ValidationError if it isn't a valid checkpoint.
+     * @param filepath
+     */
+    public static load(filepath: string): Checkpoint {
+        let state: ICheckpointFile;
+
+        try {
+            state = JSON.parse(fs.readFileSync(filepath, 'utf8'));
+        } catch (e) {
+            throw new ValidationError(`Unable to read checkpoint ${filepath}: ${e instanceof Error ? e.message : e}`);
+        }
+
+        if (typeof state !== 'object' || state === null || state.checkpointVersion !== CHECKPOINT_VERSION)
+            throw new ValidationError(`${filepath} is not a checkpoint of this version of the library.`);
+        if (!Number.isInteger(state.term) || typeof state.params !== 'object' || typeof state.subjects !== 'object' || state.subjects === null)
+            throw new ValidationError(`${filepath} is missing the term, params or subjects of the checkpoint.`);
+
+        // Validate the saved sections up front rather than when the run finishes.
+        for (const [subject, progress] of Object.entries(state.subjects)) {
+            if (!['pending', 'done', 'failed'].includes(progress.status) || !Array.isArray(progress.classes))
+                throw new ValidationError(`${filepath} has an invalid state for subject ${subject}.`);
+            JsonFormat.fromEntries(progress.classes, `${filepath} (subject ${subject})`);
+        }
+
+        return new Checkpoint(filepath, state);
+    }
+
+    /**
+     * Get the term of the scrape.
+     */
+    get term(): number {
+        return this._state.term;
+    }
+
+    /**
+     * Get the search filters of the scrape.
+     */
+    get params(): { [param: string]: string } {
+        return this._state.params;
+    }
+
+    /**
+     * Get every subject of the scrape, in scrape order.
+     */
+    get subjects(): string[] {
+        return Object.keys(this._state.subjects);
+    }
+
+    /**
+     * Get when the first run of the scrape started.
+     */
+    get startedAt(): Date {
+        return new Date(this._state.startedAt);
+    }
+
+    /**
+     * Returns true if the subject was completed by a previous run or this one.
+     * @param subject
+     */
+    public isDone(subject: string): boolean {
+        return this._state.subjects[subject].status === 'done';
+    }
+
+    /**
+     * Returns true if the checkpoint belongs to a scrape of the given term and subjects with the given search filters.
+     * @param term
+     * @param params
+     * @param subjects - In any order.
+     */
+    public matches(term: number, params: { [param: string]: string }, subjects: string[]): boolean {
+        const keys = new Set([...Object.keys(params), ...Object.keys(this._state.params)]);
+        const recorded = new Set(this.subjects);
+
+        return this._state.term === term && [...keys].every(key => params[key] === this._state.params[key]) &&
+            subjects.length === recorded.size && subjects.every(subject => recorded.has(subject));
+    }
+
+    /**
+     * Records the sections of a completed subject.
+     * @param subject
+     * @param classes
+     */
+    public complete(subject: string, classes: Class[]): void {
+        const progress = this._state.subjects[subject];
+        progress.status = 'done';
+        progress.classes = classes.map(classEntry => classEntry.toJSON());
+        progress.error = null;
+        progress.attempts++;
+    }
+
+    /**
+     * Records that a subject failed.
+     * @param subject
+     * @param error
+     */
+    public fail(subject: string, error: string): void {
+        const progress = this._state.subjects[subject];
+        progress.status = 'failed';
+        progress.error = error;
+        progress.attempts++;
+    }
+
+    /**
+     * Returns the sections of every completed subject, in scrape order.
+     */
+    public classes(): Class[] {
+        return Object.values(this._state.subjects).flatMap(progress => progress.status === 'done'
+            ? progress.classes.map(entry => Class.fromJson(entry))
+            : []);
+    }
+
+    /**
+     * Summarizes the checkpoint.
+     * @param resumed - Subjects skipped because a previous run completed them.
+     * @param startedAt - When the current run started.
+     */
+    public report(resumed: string[], startedAt: Date): IRunReport {
+        const entries = Object.entries(this._state.subjects);
+        const done = entries.filter(([, progress]) => progress.status === 'done');
+
+        return {
+            term: this._state.term,
+            succeeded: done.filter(([, progress]) => progress.classes.length > 0).map(([subject]) => subject),
+            empty: done.filter(([, progress]) => progress.classes.length === 0).map(([subject]) => subject),
+            failed: entries.filter(([, progress]) => progress.status !== 'done')
+                .map(([subject, progress]) => ({ subject, error: progress.error ?? 'Not attempted.' })),
+            resumed,
+            classes: done.reduce((total, [, progress]) => total + progress.classes.length, 0),
+            startedAt,
+            finishedAt: new Date()
+        };
+    }
+
+    /**
+     * Writes the checkpoint to its file, replacing it atomically.
+     */
+    public save(): void {
+        this._state.updatedAt = new Date().toISOString();
+
+        const temporary = `${this._filepath}.tmp`;
+        fs.writeFileSync(temporary, JSON.stringify(this._state));
+        fs.renameSync(temporary, this._filepath);
+    }
+}
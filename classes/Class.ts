@@ -1,3 +1,10 @@
+import {Meeting} from "./Meeting";
+import {Day, IMeeting, ITimeWindow} from "../interfaces/IMeeting";
+import {IJsonClass} from "../interfaces/IJsonClass";
+import {ISectionDetails} from "../interfaces/ISectionDetails";
+import {SectionType} from "../interfaces/ICourse";
+import {ValidationError} from "./ScraperError";
+
 export class Class {
     private _crn: number;
     private _courseID: string;
@@ -6,12 +13,18 @@ export class Class {
     private _instructor: string;
     private _credits: number;
     private _times: string;
+    private _timesStatus: 'PARSED' | 'TBA' | 'UNPARSEABLE';
+    private _meetings: Meeting[];
     private _projectedEnrollment: number;
     private _currentEnrollment: number;
     private _seatsAvailable: number;
     private _status: string;
+    private _term: number;
+    private _subject: string;
+    private _detailUrl: string = null;
+    private _details: ISectionDetails = null;
 
-    constructor(crn?: string, courseID?: string, attributes?: string[], title?: string, instructor?: string, credits?: number, times?: string, projectedEnrollment?: number, currentEnrollment?: number, seatsAvailable?: number, status?: string) {
+    constructor(crn?: string, courseID?: string, attributes?: string[], title?: string, instructor?: string, credits?: number, times?: string, projectedEnrollment?: number, currentEnrollment?: number, seatsAvailable?: number, status?: string, term?: number, subject?: string) {
         this.crn = crn;
         this.courseID = courseID;
         this.attributes = attributes;
@@ -23,6 +36,43 @@ export class Class {
         this.currentEnrollment = currentEnrollment;
         this.seatsAvailable = seatsAvailable;
         this.status = status;
+        this.term = term;
+        this.subject = subject;
+    }
+
+    /**
+     * Creates a class from an entry of a .json file created via the saveToJson() method.
+     * @param entry
+     */
+    public static fromJson(entry: IJsonClass): Class {
+        const newClass = new Class(
+            entry._crn.toString(),
+            entry._courseID,
+            entry._attributes,
+            entry._title,
+            entry._instructor,
+            entry._credits,
+            entry._times,
+            entry._projectedEnrollment,
+            entry._currentEnrollment,
+            entry._seatsAvailable,
+            typeof entry._status === 'boolean' ? (entry._status ? 'OPEN' : 'CLOSED') : entry._status, // Booleans are from older files.
+            entry._term,
+            entry._subject
+        );
+
+        // Use the saved meetings and their status if present. Otherwise, both are parsed from the times string.
+        // Files without a saved status get one derived from the meetings, so that the two always agree.
+        if (entry._meetings) {
+            newClass.meetings = entry._meetings;
+            newClass._timesStatus = entry._timesStatus
+                ?? (entry._meetings.length ? 'PARSED' : newClass._timesStatus === 'PARSED' ? 'UNPARSEABLE' : newClass._timesStatus);
+        }
+
+        if (entry._detailUrl) newClass.detailUrl = entry._detailUrl;
+        if (entry._details) newClass.details = entry._details;
+
+        return newClass;
     }
 
     set crn(id: string) {
@@ -41,6 +91,47 @@ export class Class {
         return this._courseID;
     }
 
+    /**
+     * Returns the ID of the course the section belongs to, e.g. "CSCI 141" for "CSCI 141 01". Labs and discussions
+     * with a suffixed course number belong to the lecture's course, e.g. "BIOL 203" for "BIOL 203L 01".
+     */
+    get courseKey(): string {
+        return Class.courseKeyOf(this._courseID);
+    }
+
+    /**
+     * Returns the ID of the course a course or section ID belongs to, e.g. "BIOL 203" for "BIOL 203L 01".
+     * @param courseID
+     */
+    public static courseKeyOf(courseID: string): string {
+        const [subject, number] = courseID.trim().split(/\s+/);
+        if (!number) return courseID.trim();
+        return `${subject} ${number.replace(/^(\d+)[LD]$/i, '$1')}`;
+    }
+
+    /**
+     * Returns true if the section belongs to a course. Matches either the full course ID of the section
+     * (e.g. "CSCI 141 01") or the course ID without the section number (e.g. "CSCI 141"), ignoring case and spacing.
+     * @param courseID
+     */
+    public isSectionOf(courseID: string): boolean {
+        const id = courseID.trim().replace(/\s+/g, ' ').toUpperCase();
+        const ownID = this._courseID.replace(/\s+/g, ' ').toUpperCase();
+        return ownID === id || ownID.startsWith(`${id} `);
+    }
+
+    /**
+     * Returns the kind of the section, detected from the suffix of its course number or section code.
+     * e.g. "BIOL 203L 01" and "CHEM 103 L01" are labs, "ECON 101 D01" is a discussion and "CSCI 141 01" is a lecture.
+     */
+    get sectionType(): SectionType {
+        const [, number = '', section = ''] = this._courseID.split(/\s+/);
+
+        if (/^\d+L$/i.test(number) || /^L|\dL$/i.test(section)) return 'LAB';
+        if (/^\d+D$/i.test(number) || /^D|\dD$/i.test(section)) return 'DISCUSSION';
+        return 'LECTURE';
+    }
+
     set attributes(attributes: string[]) {
         this._attributes = attributes.map(attribute => attribute.replace(/(\r\n|\n|\r)/gm, "").trim());
     }
@@ -77,21 +168,106 @@ export class Class {
         return this._credits;
     }
 
+    /**
+     * Sets the raw times string of a class and parses it into meetings.
+     * @param times
+     */
     set times(times: string) {
         this._times = times ? times.replace(/(\r\n|\n|\r)/gm, "").trim() : '';
+
+        const parsed = Meeting.parse(this._times);
+        this._timesStatus = parsed.status;
+        this._meetings = parsed.meetings.map(meeting => Meeting.fromJson(meeting));
     }
 
     get times(): string {
         return this._times;
     }
 
+    /**
+     * Returns whether the times string was fully parsed, is TBA or could not be understood.
+     */
+    get timesStatus(): 'PARSED' | 'TBA' | 'UNPARSEABLE' {
+        return this._timesStatus;
+    }
+
+    /**
+     * Replaces the parsed meetings, e.g. when loading previously saved meetings from a .json file.
+     * @param meetings
+     */
+    set meetings(meetings: (Meeting | IMeeting)[]) {
+        this._meetings = meetings.map(meeting => meeting instanceof Meeting ? meeting : Meeting.fromJson(meeting));
+    }
+
+    /**
+     * Returns the weekly meetings parsed from the times string. Empty if the times are TBA or unparseable.
+     */
+    get meetings(): Meeting[] {
+        return this._meetings;
+    }
+
+    /**
+     * Returns true if any meeting of the class takes place on the given day.
+     * @param day
+     */
+    public meetsOn(day: Day): boolean {
+        return this._meetings.some(meeting => meeting.meetsOn(day));
+    }
+
+    /**
+     * Returns true if every meeting of the class starts at or after the given time.
+     * If a day is given, only meetings on that day are considered and the class must meet on that day.
+     * @param time - Minutes since midnight or a "HH:MM" string.
+     * @param day
+     */
+    public startsAfter(time: number | string, day?: Day): boolean {
+        const minutes = Meeting.toMinutes(time);
+        if (minutes === null) throw new ValidationError('Incorrect time. Must be minutes or "HH:MM".');
+
+        const meetings = this.meetingsOn(day);
+        return meetings.length > 0 && meetings.every(meeting => meeting.start >= minutes);
+    }
+
+    /**
+     * Returns true if every meeting of the class ends at or before the given time.
+     * If a day is given, only meetings on that day are considered and the class must meet on that day.
+     * @param time - Minutes since midnight or a "HH:MM" string.
+     * @param day
+     */
+    public endsBefore(time: number | string, day?: Day): boolean {
+        const minutes = Meeting.toMinutes(time);
+        if (minutes === null) throw new ValidationError('Incorrect time. Must be minutes or "HH:MM".');
+
+        const meetings = this.meetingsOn(day);
+        return meetings.length > 0 && meetings.every(meeting => meeting.end <= minutes);
+    }
+
+    /**
+     * Returns true if any meeting of the class overlaps the given time window.
+     * @param window
+     */
+    public overlaps(window: ITimeWindow): boolean {
+        return this._meetings.some(meeting => meeting.overlaps(window));
+    }
+
+    /**
+     * Returns the meetings on a given day, or all meetings if no day is given.
+     * @param day
+     * @private
+     */
+    private meetingsOn(day?: Day): Meeting[] {
+        return day ? this._meetings.filter(meeting => meeting.meetsOn(day)) : this._meetings;
+    }
+
     /**
      * Sets the projected number of available spots in an individual class as a number.
      * Removes special characters such as newlines, return carriages, asterisks, etc.
      * @param projectedEnrollment
      */
     set projectedEnrollment(projectedEnrollment: number) {
-        this._projectedEnrollment = parseInt(projectedEnrollment.toString().replace(/(\r\n|\n|\r)/gm, "").trim());
+        this._projectedEnrollment = projectedEnrollment === null || projectedEnrollment === undefined
+            ? null
+            : parseInt(projectedEnrollment.toString().replace(/(\r\n|\n|\r)/gm, "").trim());
     }
 
     /**
@@ -107,7 +283,9 @@ export class Class {
      * @param currentEnrollment
      */
     set currentEnrollment(currentEnrollment: number) {
-        this._currentEnrollment = parseInt(currentEnrollment.toString().replace(/(\r\n|\n|\r)/gm, "").trim());
+        this._currentEnrollment = currentEnrollment === null || currentEnrollment === undefined
+            ? null
+            : parseInt(currentEnrollment.toString().replace(/(\r\n|\n|\r)/gm, "").trim());
     }
 
     /**
@@ -123,6 +301,11 @@ export class Class {
      * @param seatsAvailable
      */
     set seatsAvailable(seatsAvailable: number) {
+        if (seatsAvailable === null || seatsAvailable === undefined) {
+            this._seatsAvailable = null;
+            return;
+        }
+
         this._seatsAvailable = parseInt(seatsAvailable
             .toString()
             .replace(/(\r\n|\n|\r)/gm, "")
@@ -147,7 +330,7 @@ export class Class {
             this._status = 'CLOSED';
             return;
         }
-        if (status != 'OPEN' && status != 'CLOSED') throw new Error('Incorrect status type. Must be OPEN or CLOSED.')
+        if (status != 'OPEN' && status != 'CLOSED') throw new ValidationError('Incorrect status type. Must be OPEN or CLOSED.')
         this._status = status;
     }
 
@@ -158,6 +341,149 @@ export class Class {
         return this._status;
     }
 
+    /**
+     * Sets the term code the class was scraped from, e.g. 202410. Null if unknown (e.g. loaded from an older file).
+     * @param term
+     */
+    set term(term: number) {
+        const parsed = term === undefined || term === null ? NaN : parseInt(term.toString());
+        this._term = isNaN(parsed) ? null : parsed;
+    }
+
+    /**
+     * Returns the term code the class was scraped from. Use Term.decode() to get its season and year.
+     */
+    get term(): number {
+        return this._term;
+    }
+
+    /**
+     * Sets the subject code the class was scraped from, e.g. CSCI. Defaults to the first part of the course ID.
+     * @param subject
+     */
+    set subject(subject: string) {
+        this._subject = subject ? subject.trim().toUpperCase() : (this._courseID.split(/\s+/)[0] || null);
+    }
+
+    /**
+     * Returns the subject code the class was scraped from.
+     */
+    get subject(): string {
+        return this._subject;
+    }
+
+    /**
+     * Sets the URL of the section's detail page, linked from its CRN in the search results.
+     * @param url
+     */
+    set detailUrl(url: string) {
+        this._detailUrl = url ? url.trim() : null;
+    }
+
+    /**
+     * Returns the URL of the section's detail page. Null if the link wasn't found.
+     */
+    get detailUrl(): string {
+        return this._detailUrl;
+    }
+
+    /**
+     * Sets the information from the section's detail page.
+     * @param details
+     */
+    set details(details: ISectionDetails) {
+        this._details = details ? {
+            description: details.description ?? null,
+            prerequisites: details.prerequisites ?? null,
+            location: details.location ?? null,
+            building: details.building ?? null,
+            levelRestrictions: details.levelRestrictions ?? [],
+            majorRestrictions: details.majorRestrictions ?? [],
+            comments: details.comments ?? null
+        } : null;
+    }
+
+    /**
+     * Returns the information from the section's detail page. Null unless scraped with the details option.
+     */
+    get details(): ISectionDetails {
+        return this._details;
+    }
+
+    /**
+     * Returns the course description from the detail page, or null.
+     */
+    get description(): string {
+        return this._details ? this._details.description : null;
+    }
+
+    /**
+     * Returns the prerequisites from the detail page, or null.
+     */
+    get prerequisites(): string {
+        return this._details ? this._details.prerequisites : null;
+    }
+
+    /**
+     * Returns the meeting location from the detail page (e.g. "ISC 1221"), or null.
+     */
+    get location(): string {
+        return this._details ? this._details.location : null;
+    }
+
+    /**
+     * Returns the building of the meeting location from the detail page (e.g. "ISC"), or null.
+     */
+    get building(): string {
+        return this._details ? this._details.building : null;
+    }
+
+    /**
+     * Returns the levels the section is restricted to from the detail page. Empty if unrestricted or unknown.
+     */
+    get levelRestrictions(): string[] {
+        return this._details ? this._details.levelRestrictions : [];
+    }
+
+    /**
+     * Returns the majors the section is restricted to from the detail page. Empty if unrestricted or unknown.
+     */
+    get majorRestrictions(): string[] {
+        return this._details ? this._details.majorRestrictions : [];
+    }
+
+    /**
+     * Returns the section comments from the detail page, or null.
+     */
+    get comments(): string {
+        return this._details ? this._details.comments : null;
+    }
+
+    /**
+     * Returns the object written by the saveToJson() method. Unparseable numbers are written as null.
+     */
+    public toJSON(): IJsonClass {
+        return {
+            _crn: this._crn,
+            _courseID: this._courseID,
+            _attributes: this._attributes,
+            _title: this._title,
+            _instructor: this._instructor,
+            _credits: this._credits,
+            _times: this._times,
+            _timesStatus: this._timesStatus,
+            _meetings: this._meetings.map(meeting => meeting.toJSON()),
+            _projectedEnrollment: this._projectedEnrollment,
+            _currentEnrollment: this._currentEnrollment,
+            _seatsAvailable: this._seatsAvailable,
+            _status: this._status as 'OPEN' | 'CLOSED',
+            _term: this._term,
+            _subject: this._subject,
+            _detailUrl: this._detailUrl,
+            _details: this._details
+        };
+    }
+
     /**
      * Get the status of an individual class as boolean. OPEN returns true whereas CLOSED returns false.
      */
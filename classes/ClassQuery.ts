@@ -0,0 +1,247 @@
+import {Class} from "./Class";
+import {Comparison, ISort, NumericField, Predicate, TextField} from "../interfaces/IQuery";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the ClassQuery class is given invalid arguments or data.
+ */
+class QueryError extends ValidationError {}
+
+/**
+ * A fluent query over a list of classes. Conditions are combined with AND unless grouped with or() or not().
+ * Queries are not run until run(), count() or first() is called, and can be reused.
+ * @example
+ * scraper.query()
+ *     .where('seatsAvailable', '>', 0)
+ *     .contains('title', 'intro')
+ *     .or(q => q.hasAnyAttribute(['C200', 'NQR']), q => q.between('credits', 3, 4))
+ *     .sortBy('seatsAvailable', 'desc')
+ *     .limit(10)
+ *     .run();
+ */
+export class ClassQuery {
+    private _classData: Class[];
+    private _predicates: Predicate[] = [];
+    private _sorts: ISort[] = [];
+    private _limit: number = null;
+    private _offset: number = 0;
+
+    constructor(classData: Class[] = []) {
+        this._classData = classData;
+    }
+
+    /**
+     * Adds a custom condition.
+     * @param predicate
+     */
+    public filter(predicate: Predicate): this {
+        if (typeof predicate !== 'function') throw new QueryError('Filter must be a function.');
+        this._predicates.push(predicate);
+        return this;
+    }
+
+    /**
+     * Compares a numeric field, e.g. where('seatsAvailable', '>', 0). Classes whose field is unknown (null or not a
+     * number) never match, whatever the comparison.
+     * @param field
+     * @param comparison
+     * @param value
+     */
+    public where(field: NumericField, comparison: Comparison, value: number): this {
+        if (typeof value !== 'number' || isNaN(value)) throw new QueryError(`Value for ${field} must be a number.`);
+
+        const compare: { [comparison in Comparison]: (a: number, b: number) => boolean } = {
+            '=': (a, b) => a === b,
+            '!=': (a, b) => a !== b,
+            '>': (a, b) => a > b,
+            '>=': (a, b) => a >= b,
+            '<': (a, b) => a < b,
+            '<=': (a, b) => a <= b
+        };
+        if (!compare[comparison]) throw new QueryError(`Unknown comparison ${comparison}. Must be one of ${Object.keys(compare).join(', ')}.`);
+
+        return this.filter(classEntry => Number.isFinite(classEntry[field]) && compare[comparison](classEntry[field], value));
+    }
+
+    /**
+     * Matches a numeric field within an inclusive range, e.g. between('credits', 3, 4).
+     * @param field
+     * @param min
+     * @param max
+     */
+    public between(field: NumericField, min: number, max: number): this {
+        return this.where(field, '>=', min).where(field, '<=', max);
+    }
+
+    /**
+     * Matches a text field exactly, e.g. equals('status', 'OPEN').
+     * @param field
+     * @param value
+     */
+    public equals(field: TextField, value: string): this {
+        return this.filter(classEntry => classEntry[field] === value);
+    }
+
+    /**
+     * Matches a text field by case-insensitive substring, e.g. contains('instructor', 'smith').
+     * @param field
+     * @param text
+     */
+    public contains(field: TextField, text: string): this {
+        const wanted = text.toLowerCase();
+        return this.filter(classEntry => (classEntry[field] || '').toLowerCase().includes(wanted));
+    }
+
+    /**
+     * Matches the sections of a course, e.g. ofCourse('CSCI 141') or ofCourse('CSCI 141 01').
+     * @param courseID
+     */
+    public ofCourse(courseID: string): this {
+        return this.filter(classEntry => classEntry.isSectionOf(courseID));
+    }
+
+    /**
+     * Matches classes with at least one of the given attributes.
+     * @param attributes
+     */
+    public hasAnyAttribute(attributes: string[]): this {
+        return this.filter(classEntry => attributes.some(attribute => classEntry.attributes.includes(attribute)));
+    }
+
+    /**
+     * Matches classes with every one of the given attributes.
+     * @param attributes
+     */
+    public hasAllAttributes(attributes: string[]): this {
+        return this.filter(classEntry => attributes.every(attribute => classEntry.attributes.includes(attribute)));
+    }
+
+    /**
+     * Matches classes which satisfy all of the given sub-queries.
+     * @example query.and(q => q.equals('status', 'OPEN'), q => q.where('credits', '=', 4))
+     * @param builders
+     */
+    public and(...builders: ((query: ClassQuery) => ClassQuery)[]): this {
+        const predicates = builders.map(builder => ClassQuery.toPredicate(builder));
+        return this.filter(classEntry => predicates.every(predicate => predicate(classEntry)));
+    }
+
+    /**
+     * Matches classes which satisfy any of the given sub-queries.
+     * @example query.or(q => q.contains('title', 'biology'), q => q.equals('subject', 'BIOL'))
+     * @param builders
+     */
+    public or(...builders: ((query: ClassQuery) => ClassQuery)[]): this {
+        const predicates = builders.map(builder => ClassQuery.toPredicate(builder));
+        return this.filter(classEntry => predicates.some(predicate => predicate(classEntry)));
+    }
+
+    /**
+     * Matches classes which don't satisfy the given sub-query.
+     * @example query.not(q => q.equals('status', 'CLOSED'))
+     * @param builder
+     */
+    public not(builder: (query: ClassQuery) => ClassQuery): this {
+        const predicate = ClassQuery.toPredicate(builder);
+        return this.filter(classEntry => !predicate(classEntry));
+    }
+
+    /**
+     * Sorts the results by a field. Calling it again sorts by another field when the previous ones are equal.
+     * @param field
+     * @param direction - Defaults to ascending.
+     */
+    public sortBy(field: NumericField | TextField, direction: 'asc' | 'desc' = 'asc'): this {
+        this._sorts.push({ field, direction });
+        return this;
+    }
+
+    /**
+     * Returns at most this many results.
+     * @param limit
+     */
+    public limit(limit: number): this {
+        if (!Number.isInteger(limit) || limit < 0) throw new QueryError('Limit must be a positive integer.');
+        this._limit = limit;
+        return this;
+    }
+
+    /**
+     * Skips this many results.
+     * @param offset
+     */
+    public offset(offset: number): this {
+        if (!Number.isInteger(offset) || offset < 0) throw new QueryError('Offset must be a positive integer.');
+        this._offset = offset;
+        return this;
+    }
+
+    /**
+     * Returns a page of results. Pages start at 1.
+     * @param page
+     * @param size
+     */
+    public page(page: number, size: number): this {
+        if (!Number.isInteger(page) || page < 1) throw new QueryError('Page must be an integer of at least 1.');
+        return this.offset((page - 1) * size).limit(size);
+    }
+
+    /**
+     * Runs the query and returns the matching classes, sorted and paginated.
+     */
+    public run(): Class[] {
+        const results = this._classData.filter(classEntry => this.matches(classEntry));
+
+        if (this._sorts.length) results.sort((a, b) => this.compare(a, b));
+
+        return results.slice(this._offset, this._limit === null ? undefined : this._offset + this._limit);
+    }
+
+    /**
+     * Returns the number of matching classes, ignoring the limit and offset.
+     */
+    public count(): number {
+        return this._classData.filter(classEntry => this.matches(classEntry)).length;
+    }
+
+    /**
+     * Returns the first result, or undefined if no class matches.
+     */
+    public first(): Class {
+        return this.run()[0];
+    }
+
+    /**
+     * Returns true if the class satisfies every condition of the query.
+     * @param classEntry
+     */
+    public matches(classEntry: Class): boolean {
+        return this._predicates.every(predicate => predicate(classEntry));
+    }
+
+    /**
+     * @private
+     */
+    private compare(a: Class, b: Class): number {
+        for (const sort of this._sorts) {
+            const x = a[sort.field];
+            const y = b[sort.field];
+            const difference = typeof x === 'number' && typeof y === 'number'
+                ? (x - y) || 0
+                : String(x ?? '').localeCompare(String(y ?? ''));
+
+            if (difference !== 0) return sort.direction === 'asc' ? difference : -difference;
+        }
+        return 0;
+    }
+
+    /**
+     * Builds a sub-query and returns it as a predicate.
+     * @private
+     */
+    private static toPredicate(builder: (query: ClassQuery) => ClassQuery): Predicate {
+        const query = builder(new ClassQuery());
+        if (!(query instanceof ClassQuery)) throw new QueryError('Sub-queries must return the query they were given.');
+        return classEntry => query.matches(classEntry);
+    }
+}
@@ -0,0 +1,209 @@
+import {Class} from "./Class";
+import {ICourseTotals, IJsonCourse, SectionType} from "../interfaces/ICourse";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the Course class is given invalid arguments or data.
+ */
+class CourseError extends ValidationError {}
+
+/**
+ * A course with all of its sections in one term, e.g. CSCI 141 with its lectures, labs and discussions.
+ * Courses which are cross-listed in other subjects (same title, times and instructor) are linked to each other.
+ * @example
+ * const [course] = Course.fromClasses(scraper.findClassesByCourseID('BIOL 203'));
+ * console.log(course.lectures.length, course.labs.length, course.totals.seatsAvailable);
+ */
+export class Course {
+    private _id: string;
+    private _term: number;
+    private _sections: Class[] = [];
+    private _crossListed: Map<Class, Class[]> = new Map();
+    private _crossListings: Course[] = [];
+
+    constructor(id: string, term: number = null, sections: Class[] = []) {
+        this._id = id;
+        this._term = term;
+        sections.forEach(section => this.addSection(section));
+    }
+
+    /**
+     * Groups sections into courses by term and course ID, and links cross-listed courses.
+     * Courses are returned in the order their first section appears.
+     * @param classes
+     */
+    public static fromClasses(classes: Class[]): Course[] {
+        const courses = new Map<string, Course>();
+
+        for (const classEntry of classes) {
+            const key = `${classEntry.term}/${classEntry.courseKey}`;
+            if (!courses.has(key)) courses.set(key, new Course(classEntry.courseKey, classEntry.term));
+            courses.get(key).addSection(classEntry);
+        }
+
+        Course.linkCrossListings([...courses.values()]);
+        return [...courses.values()];
+    }
+
+    /**
+     * Links sections of different subjects in the same term with the same title, times and instructor.
+     * Sections with TBA times or without an instructor are never linked, since they would match too broadly.
+     * @param courses
+     * @private
+     */
+    private static linkCrossListings(courses: Course[]): void {
+        const groups = new Map<string, { section: Class, course: Course }[]>();
+
+        for (const course of courses) {
+            for (const section of course.sections) {
+                if (!section.meetings.length || !section.instructor) continue;
+
+                const key = [section.term, section.title, section.times, section.instructor]
+                    .map(value => String(value).toLowerCase().replace(/\s+/g, ' ').trim()).join('|');
+                if (!groups.has(key)) groups.set(key, []);
+                groups.get(key).push({ section, course });
+            }
+        }
+
+        for (const group of groups.values()) {
+            for (const { section, course } of group) {
+                const others = group.filter(other => other.section.subject !== section.subject);
+                if (!others.length) continue;
+
+                course._crossListed.set(section, others.map(other => other.section));
+                for (const other of others)
+                    if (!course._crossListings.includes(other.course)) course._crossListings.push(other.course);
+            }
+        }
+    }
+
+    /**
+     * Adds a section to the course.
+     * @param section
+     */
+    public addSection(section: Class): void {
+        if (section.courseKey !== this._id) throw new CourseError(`Section ${section.courseID} does not belong to ${this._id}.`);
+        if (this._term !== null && section.term !== this._term) throw new CourseError(`Section ${section.courseID} is from another term than ${this._id}.`);
+        if (!this._sections.includes(section)) this._sections.push(section);
+    }
+
+    /**
+     * Get the course ID, e.g. "CSCI 141".
+     */
+    get id(): string {
+        return this._id;
+    }
+
+    /**
+     * Get the subject code, e.g. "CSCI".
+     */
+    get subject(): string {
+        return this._id.split(' ')[0];
+    }
+
+    /**
+     * Get the term code of the sections. Null if unknown.
+     */
+    get term(): number {
+        return this._term;
+    }
+
+    /**
+     * Get the title of the first lecture (or section if there are no lectures).
+     */
+    get title(): string {
+        const [first] = this.lectures.length ? this.lectures : this._sections;
+        return first ? first.title : null;
+    }
+
+    /**
+     * Get every section of the course.
+     */
+    get sections(): Class[] {
+        return this._sections;
+    }
+
+    /**
+     * Get the lecture sections.
+     */
+    get lectures(): Class[] {
+        return this.sectionsOfType('LECTURE');
+    }
+
+    /**
+     * Get the lab sections.
+     */
+    get labs(): Class[] {
+        return this.sectionsOfType('LAB');
+    }
+
+    /**
+     * Get the discussion sections.
+     */
+    get discussions(): Class[] {
+        return this.sectionsOfType('DISCUSSION');
+    }
+
+    /**
+     * Get the courses of other subjects which share sections with this one, e.g. HIST 201 for AMST 201.
+     */
+    get crossListings(): Course[] {
+        return this._crossListings;
+    }
+
+    /**
+     * Returns the sections of other subjects which are cross-listed with a section of this course.
+     * @param section
+     */
+    public crossListedSections(section: Class): Class[] {
+        return this._crossListed.get(section) ?? [];
+    }
+
+    /**
+     * Returns true if any section has seats available.
+     */
+    get isOpen(): boolean {
+        return this._sections.some(section => section.status === 'OPEN');
+    }
+
+    /**
+     * Get the totals of the course. Enrollment and seats are summed over the lectures, since students of labs and
+     * discussions are also enrolled in a lecture. Courses without lectures sum every section.
+     */
+    get totals(): ICourseTotals {
+        const counted = this.lectures.length ? this.lectures : this._sections;
+        const sum = (field: 'projectedEnrollment' | 'currentEnrollment' | 'seatsAvailable') =>
+            counted.reduce((total, section) => total + (Number.isFinite(section[field]) ? section[field] : 0), 0);
+
+        return {
+            sections: this._sections.length,
+            openSections: this._sections.filter(section => section.status === 'OPEN').length,
+            projectedEnrollment: sum('projectedEnrollment'),
+            currentEnrollment: sum('currentEnrollment'),
+            seatsAvailable: sum('seatsAvailable')
+        };
+    }
+
+    /**
+     * Returns a summary of the course with the CRNs of its sections.
+     */
+    public toJSON(): IJsonCourse {
+        return {
+            id: this._id,
+            term: this._term,
+            title: this.title,
+            totals: this.totals,
+            lectures: this.lectures.map(section => section.crn),
+            labs: this.labs.map(section => section.crn),
+            discussions: this.discussions.map(section => section.crn),
+            crossListings: this._crossListings.map(course => course.id)
+        };
+    }
+
+    /**
+     * @private
+     */
+    private sectionsOfType(type: SectionType): Class[] {
+        return this._sections.filter(section => section.sectionType === type);
+    }
+}
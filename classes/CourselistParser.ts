@@ -0,0 +1,224 @@
+import {Class} from "./Class";
+import {IData} from "../interfaces/IData";
+import {IFilterOption} from "../interfaces/ISearchFilters";
+import {IParseResult, IParseWarning} from "../interfaces/IParseWarning";
+import {IPageLayout} from "../interfaces/ISiteAdapter";
+
+const jsdom = require("jsdom");
+const { JSDOM } = jsdom;
+
+/**
+ * Layout of the W&M Open Course List. Columns of the search results table are in the order W&M has always used.
+ */
+export const WM_LAYOUT: IPageLayout = {
+    termSelect: 'term_code',
+    subjectSelect: 'term_subj',
+    filterSelects: { attributes: 'attr', attributes2: 'attr2', levels: 'levl', statuses: 'status', partsOfTerm: 'ptrm' },
+    columns: ['crn', 'courseID', 'attributes', 'title', 'instructor', 'credits', 'times', 'projectedEnrollment',
+        'currentEnrollment', 'seatsAvailable', 'status']
+};
+
+/**
+ * Header labels of the search results table, normalized to lowercase letters, for each column.
+ * Used to find the columns if they are ever reordered.
+ */
+const HEADERS: { [column: string]: string[] } = {
+    crn: ['crn'],
+    courseID: ['courseid', 'course'],
+    attributes: ['crseattr', 'courseattr', 'attributes', 'attr'],
+    title: ['title', 'coursetitle'],
+    instructor: ['instructor', 'instructors'],
+    credits: ['crdthrs', 'credithours', 'credits', 'crdt'],
+    times: ['meetdaytime', 'daytime', 'meetingtimes', 'times'],
+    projectedEnrollment: ['projenr', 'projectedenrollment', 'projenrl'],
+    currentEnrollment: ['currenr', 'currentenrollment', 'currenrl'],
+    seatsAvailable: ['seatsavail', 'seatsavailable', 'seats'],
+    status: ['status']
+};
+
+/**
+ * Parses the pages of the Open Course List. Problems are returned as warnings instead of thrown, so that a single
+ * odd row doesn't stop a scrape. It's up to the caller to decide whether the warnings are fatal.
+ */
+export class CourselistParser {
+    /**
+     * Parses the terms, subjects and search filter options of the course list page. Terms are numeric term codes,
+     * without placeholder options. Terms or subjects are null if their dropdown is missing.
+     * @param html
+     * @param url - Used in warnings.
+     * @param layout - Defaults to the layout of the W&M Open Course List.
+     */
+    public static parseCourseInfo(html: string, url?: string, layout: IPageLayout = WM_LAYOUT): IParseResult<IData> {
+        const document = new JSDOM(html).window.document;
+        const warnings: IParseWarning[] = [];
+
+        const select = (id: string) => document.getElementById(id) || document.querySelector(`select[name="${id}"]`);
+        const options = (id: string): IFilterOption[] => {
+            const element = select(id);
+            return element ? [...element.querySelectorAll('option')].map(option => ({ value: option.value, label: option.textContent.trim() })) : [];
+        };
+
+        /**
+         * Extract the terms from the term dropdown. Placeholders such as "Select a term" don't have a term code.
+         */
+        let terms: IData['terms'] = { latest: null, all: null };
+        const termSelect = select(layout.termSelect);
+        if (!termSelect) {
+            warnings.push({ code: 'MISSING_ELEMENT', message: `The term dropdown (${layout.termSelect}) is missing.`, url });
+        } else {
+            const termOptions = [...termSelect.querySelectorAll('option')];
+            const codes = termOptions.filter(option => /^\d+$/.test(option.value.trim()));
+
+            // The page's preselected term if any. Otherwise, the latest term is the second-to-last in the dropdown.
+            const selected = codes.find(option => option.hasAttribute('selected'));
+            const latest = selected ?? (codes.length > 1 ? codes[codes.length - 2] : codes[0]);
+
+            // Term codes are numbers, like the term of every class.
+            terms = {
+                all: codes.map(option => parseInt(option.value)),
+                labels: Object.fromEntries(codes.map(option => [option.value.trim(), option.textContent.trim()])), // e.g. Fall 2023
+                latest: latest ? parseInt(latest.value) : null
+            };
+            if (!codes.length) warnings.push({ code: 'MISSING_ELEMENT', message: `The term dropdown (${layout.termSelect}) has no terms.`, url });
+        }
+
+        /**
+         * Extract the subjects from the subject dropdown, without the "All" option.
+         */
+        let subjects: string[] = null;
+        const subjectSelect = select(layout.subjectSelect);
+        if (!subjectSelect) {
+            warnings.push({ code: 'MISSING_ELEMENT', message: `The subject dropdown (${layout.subjectSelect}) is missing.`, url });
+        } else {
+            subjects = [...subjectSelect.querySelectorAll('option')].map(option => option.value.trim()).filter(value => value !== '' && value !== '0');
+            if (!subjects.length) warnings.push({ code: 'MISSING_ELEMENT', message: `The subject dropdown (${layout.subjectSelect}) has no subjects.`, url });
+        }
+
+        const filters = Object.fromEntries(Object.entries(layout.filterSelects).map(([filter, id]) => [filter, options(id)])) as IData['filters'];
+
+        return { result: { terms, subjects, filters }, warnings };
+    }
+
+    /**
+     * Parses the search results page of a subject into classes. Rows without a class are skipped, and numbers which
+     * can't be parsed are stored as null. Columns are found by their header when it can be understood.
+     * @param html
+     * @param term - The term code the page was requested for.
+     * @param subject - The subject code the page was requested for. Null for searches of all subjects.
+     * @param url - Used to resolve links to the detail pages and in warnings.
+     * @param layout - Defaults to the layout of the W&M Open Course List.
+     */
+    public static parseSearchResults(html: string, term: number, subject: string, url?: string, layout: IPageLayout = WM_LAYOUT): IParseResult<Class[]> {
+        const document = new JSDOM(html).window.document;
+        const warnings: IParseWarning[] = [];
+        const classes: Class[] = [];
+
+        const table = CourselistParser.findResultsTable(document);
+        if (!table) {
+            warnings.push({ code: 'MISSING_TABLE', message: `No results table was found${subject ? ` for ${subject}` : ''}.`, url });
+            return { result: classes, warnings };
+        }
+
+        const header = [...table.querySelectorAll('tr')].find(row => row.querySelector('th'));
+        const headerCells = header ? [...header.querySelectorAll('th, td')] : [];
+        const columns = CourselistParser.mapColumns(headerCells.map(cell => cell.textContent), layout.columns);
+        const expected = headerCells.length > 1 ? headerCells.length : layout.columns.length;
+
+        const rows = [...table.querySelectorAll('tr')].filter(row => row !== header && row.querySelector('td'));
+        rows.forEach((row, index) => {
+            const cells = [...row.querySelectorAll('td')];
+            const rowNumber = index + 1;
+            const warn = (warning: Omit<IParseWarning, 'url' | 'row'>) => warnings.push({ ...warning, url, row: rowNumber });
+
+            // Rows such as "No classes found" span the whole table.
+            if (cells.length === 1) {
+                warn({ code: 'ROW_SKIPPED', message: `Row ${rowNumber} has a single cell: "${cells[0].textContent.trim()}".` });
+                return;
+            }
+
+            if (cells.length !== expected) {
+                const missing = cells.length <= Math.max(...Object.values(columns));
+                warn({ code: 'UNEXPECTED_COLUMN_COUNT', message: `Row ${rowNumber} has ${cells.length} cells instead of ${expected}.${missing ? ' It was skipped.' : ''}` });
+                if (missing) return;
+            }
+
+            const text = (column: string) => cells[columns[column]].textContent.replace(/(\r\n|\n|\r)/gm, '').trim();
+            const number = (column: string, parse: (value: string) => number) => {
+                const parsed = parse(text(column).replace('*', ''));
+                if (!isNaN(parsed)) return parsed;
+
+                warn({ code: 'UNPARSEABLE_NUMBER', message: `Row ${rowNumber}: ${column} isn't a number: "${text(column)}".`, field: column, value: text(column) });
+                return null;
+            };
+
+            const crn = text('crn');
+            if (!/^\d+$/.test(crn)) {
+                warn({ code: 'ROW_SKIPPED', message: `Row ${rowNumber} has no CRN: "${crn}".`, field: 'crn', value: crn });
+                return;
+            }
+
+            const status = text('status').toUpperCase();
+            if (status !== 'OPEN' && status !== 'CLOSED') {
+                warn({ code: 'ROW_SKIPPED', message: `CRN ${crn} has an unknown status: "${text('status')}".`, field: 'status', value: text('status') });
+                return;
+            }
+
+            const newClass = new Class(
+                crn,
+                text('courseID'),
+                text('attributes') ? text('attributes').split(',') : [], // Sections without attributes have an empty cell.
+                text('title'),
+                text('instructor'),
+                number('credits', parseFloat),
+                text('times'),
+                number('projectedEnrollment', value => parseInt(value)),
+                number('currentEnrollment', value => parseInt(value)),
+                number('seatsAvailable', value => parseInt(value)),
+                status,
+                term,
+                subject
+            );
+
+            // Report times which couldn't be understood rather than silently dropping them.
+            if (newClass.timesStatus === 'UNPARSEABLE')
+                warn({ code: 'UNPARSEABLE_TIMES', message: `Unable to parse times "${newClass.times}" for CRN ${newClass.crn}.`, field: 'times', value: newClass.times });
+
+            // Keep the link of the CRN to the section's detail page.
+            const link = cells[columns.crn].querySelector('a[href]');
+            if (link && url) newClass.detailUrl = new URL(link.getAttribute('href'), url).toString();
+
+            classes.push(newClass);
+        });
+
+        return { result: classes, warnings };
+    }
+
+    /**
+     * Returns the table holding the results: the one with a CRN header, or else the first with a body.
+     * @param document
+     * @private
+     */
+    private static findResultsTable(document: Document): HTMLTableElement | null {
+        const tables = [...document.querySelectorAll('table')];
+        const normalize = (text: string) => text.toLowerCase().replace(/[^a-z]/g, '');
+
+        return tables.find(table => [...table.querySelectorAll('th')].some(cell => normalize(cell.textContent) === 'crn'))
+            ?? tables.find(table => table.querySelector('tbody'))
+            ?? null;
+    }
+
+    /**
+     * Returns the index of every column. Uses the header if every column can be found in it, and the usual order otherwise.
+     * @param headers - Text of the header cells.
+     * @param order - The usual order of the columns.
+     * @private
+     */
+    private static mapColumns(headers: string[], order: string[]): { [column: string]: number } {
+        const normalized = headers.map(header => header.toLowerCase().replace(/[^a-z]/g, ''));
+        const columns = Object.fromEntries(order.map(column => [column, normalized.findIndex(header => (HEADERS[column] ?? []).includes(header))]));
+
+        return Object.values(columns).every(index => index !== -1)
+            ? columns
+            : Object.fromEntries(order.map((column, index) => [column, index]));
+    }
+}
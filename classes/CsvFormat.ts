@@ -0,0 +1,206 @@
+import {Class} from "./Class";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Columns written by the saveToCsv() method, in order. Term and subject are optional when reading.
+ */
+const COLUMNS = ['crn', 'courseID', 'attributes', 'title', 'instructor', 'credits', 'times', 'projectedEnrollment',
+    'currentEnrollment', 'seatsAvailable', 'status', 'term', 'subject'];
+const OPTIONAL_COLUMNS = ['term', 'subject'];
+
+/**
+ * Reads and writes the .csv format of the saveToCsv() and loadFromCsv() methods following RFC 4180.
+ * Attributes are written as one comma-separated field. Unparseable numbers are written as empty fields.
+ */
+export class CsvFormat {
+    /**
+     * Converts rows of fields into CSV text. Fields containing commas, quotes or line breaks are quoted.
+     * @param rows
+     */
+    public static stringify(rows: string[][]): string {
+        return rows.map(row => row.map(field => /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field).join(',')).join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Parses CSV text into rows of fields. Accepts CRLF or LF line endings and quoted fields spanning several lines.
+     * @param text
+     */
+    public static parse(text: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let field = '';
+        let quoted = false;
+        let i = 0;
+
+        // Skip a byte order mark if present.
+        if (text.charCodeAt(0) === 0xFEFF) i++;
+
+        for (; i < text.length; i++) {
+            const char = text[i];
+
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"' && field === '') {
+                quoted = true;
+            } else if (char === ',') {
+                row.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') i++;
+                row.push(field);
+                rows.push(row);
+                row = [];
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+
+        if (quoted) throw new ValidationError('CSV file ends inside a quoted field.');
+
+        // The last line may not end with a line break.
+        if (field !== '' || row.length) {
+            row.push(field);
+            rows.push(row);
+        }
+
+        // Ignore blank lines.
+        return rows.filter(fields => !(fields.length === 1 && fields[0] === ''));
+    }
+
+    /**
+     * Converts classes to the contents of a .csv file with a header row.
+     * @param classes
+     */
+    public static serialize(classes: Class[]): string {
+        return CsvFormat.stringify([COLUMNS, ...classes.map(classEntry => CsvFormat.toRow(classEntry))]);
+    }
+
+    /**
+     * Returns the header row of a .csv file.
+     */
+    public static header(): string[] {
+        return [...COLUMNS];
+    }
+
+    /**
+     * Converts a class to the fields of a row, in the order of the header.
+     * @param classEntry
+     */
+    public static toRow(classEntry: Class): string[] {
+        const number = (value: number) => value === null || value === undefined || isNaN(value) ? '' : value.toString();
+
+        return [
+            classEntry.crn,
+            classEntry.courseID,
+            classEntry.attributes.join(','),
+            classEntry.title,
+            classEntry.instructor,
+            number(classEntry.credits),
+            classEntry.times,
+            number(classEntry.projectedEnrollment),
+            number(classEntry.currentEnrollment),
+            number(classEntry.seatsAvailable),
+            classEntry.status,
+            number(classEntry.term),
+            classEntry.subject ?? ''
+        ];
+    }
+
+    /**
+     * Parses the contents of a .csv file into classes. Columns are matched by their header, so their order doesn't matter.
+     * Files written by older versions of this library (with a "_crn" style header) are also accepted.
+     * Throws a ValidationError listing every problem if the file is invalid.
+     * @param text
+     * @param source - Name of the file used in error messages.
+     */
+    public static parseClasses(text: string, source: string = 'CSV file'): Class[] {
+        const [header, ...rows] = CsvFormat.parse(text);
+        if (!header) throw new ValidationError(`${source} is empty.`);
+
+        // Older files prefix every column with an underscore.
+        const names = header.map(name => name.trim().replace(/^_/, ''));
+        const legacy = header[0].trim().startsWith('_');
+        const missing = COLUMNS.filter(column => !OPTIONAL_COLUMNS.includes(column) && !names.includes(column));
+        if (missing.length) throw new ValidationError(`${source} is missing columns:`, missing);
+
+        const problems: string[] = [];
+        const classes: Class[] = [];
+
+        rows.forEach((fields, index) => {
+            const line = index + 2; // The header is line 1.
+            if (fields.length !== header.length) {
+                problems.push(`line ${line}: expected ${header.length} fields but found ${fields.length}`);
+                return;
+            }
+
+            const value = (column: string) => names.includes(column) ? fields[names.indexOf(column)] : '';
+            const number = (column: string, integer: boolean) => {
+                const raw = value(column).trim();
+                if (raw === '' || (legacy && raw === 'NaN')) return null; // Older files wrote unparseable numbers as NaN.
+
+                const parsed = Number(raw);
+                if (!isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+                    problems.push(`line ${line}: ${column} must be ${integer ? 'an integer' : 'a number'}, found "${raw}"`);
+                    return null;
+                }
+                return parsed;
+            };
+
+            const crn = number('crn', true);
+            if (crn === null && value('crn').trim() === '') problems.push(`line ${line}: crn is required`);
+
+            const status = value('status').trim();
+            if (status !== 'OPEN' && status !== 'CLOSED') problems.push(`line ${line}: status must be OPEN or CLOSED, found "${status}"`);
+
+            // Older files wrote attributes as a JSON array.
+            let attributes: string[];
+            const rawAttributes = value('attributes');
+            if (legacy && rawAttributes.startsWith('[')) {
+                try {
+                    attributes = JSON.parse(rawAttributes);
+                } catch (e) {
+                    problems.push(`line ${line}: attributes is not a valid array`);
+                }
+            } else {
+                // An empty field is a class without attributes.
+                attributes = rawAttributes.trim() === '' ? [] : rawAttributes.split(',');
+            }
+
+            const credits = number('credits', false);
+            const projectedEnrollment = number('projectedEnrollment', true);
+            const currentEnrollment = number('currentEnrollment', true);
+            const seatsAvailable = number('seatsAvailable', true);
+            const term = number('term', true);
+
+            if (problems.length) return;
+
+            classes.push(new Class(
+                crn.toString(),
+                value('courseID'),
+                attributes,
+                value('title'),
+                value('instructor'),
+                credits,
+                value('times'),
+                projectedEnrollment,
+                currentEnrollment,
+                seatsAvailable,
+                status,
+                term,
+                value('subject')
+            ));
+        });
+
+        if (problems.length) throw new ValidationError(`${source} contains invalid rows:`, problems);
+
+        return classes;
+    }
+}
@@ -0,0 +1,276 @@
+import * as fs from "fs";
+import {Class} from "./Class";
+import {CsvFormat} from "./CsvFormat";
+import {ScraperError, ValidationError} from "./ScraperError";
+import {IFillRate, IFillRateOptions, ISnapshot} from "../interfaces/IHistory";
+
+/**
+ * Fields compared to decide whether a section changed since its previous snapshot.
+ */
+const TRACKED_FIELDS = ['projectedEnrollment', 'currentEnrollment', 'seatsAvailable', 'status'];
+
+/**
+ * A local store of the enrollment of every section over time, e.g. over a registration period. Each recorded scrape
+ * appends a timestamped snapshot of the sections which changed since their previous snapshot to a .ndjson file, one
+ * snapshot per line, so the file grows with changes rather than with scrapes. Sections are keyed by term and CRN.
+ * @example
+ * const history = await EnrollmentHistory.open('./history.ndjson');
+ * await history.record(scraper.classData, scraper.scrapedAt);
+ * console.log(EnrollmentHistory.toCsv(history.series('12345')));
+ */
+export class EnrollmentHistory {
+    private _filepath: string;
+    private _snapshots: Map<string, ISnapshot[]> = new Map(); // Term and CRN → snapshots, oldest first
+    private _validLength: number = null; // Bytes before an incomplete last line, if the file ends with one
+
+    private constructor(filepath: string) {
+        this._filepath = filepath;
+    }
+
+    /**
+     * Opens a history file, creating it on the first record() if it doesn't exist. An incomplete last line, as left by
+     * an interrupted write, is ignored and replaced by the next record(). Throws a ValidationError listing every other
+     * invalid line.
+     * @param filepath
+     */
+    public static async open(filepath: string): Promise<EnrollmentHistory> {
+        const history = new EnrollmentHistory(filepath);
+
+        let text: string;
+        try {
+            text = await fs.promises.readFile(filepath, 'utf8');
+        } catch (e) {
+            if (e.code === 'ENOENT') return history;
+            throw new ScraperError(`Error loading history file: ${e}`);
+        }
+
+        const lines = text.split(/\r?\n/);
+        const problems: string[] = [];
+
+        lines.forEach((line, index) => {
+            if (line.trim() === '') return;
+
+            let snapshot: ISnapshot;
+            try {
+                snapshot = JSON.parse(line);
+            } catch (e) {
+                // Only the last line can be incomplete, since every snapshot is written with its line break.
+                if (index !== lines.length - 1) problems.push(`line ${index + 1} is not valid JSON`);
+                else history._validLength = Buffer.byteLength(text) - Buffer.byteLength(line);
+                return;
+            }
+
+            if (typeof snapshot !== 'object' || snapshot === null || isNaN(Date.parse(snapshot.timestamp)) || typeof snapshot.crn !== 'string' || !Number.isInteger(snapshot.term)) {
+                problems.push(`line ${index + 1} must be a snapshot with a timestamp, term and CRN`);
+                return;
+            }
+
+            history.insert(snapshot);
+        });
+
+        if (problems.length) throw new ValidationError(`${filepath} contains invalid snapshots:`, problems);
+
+        return history;
+    }
+
+    /**
+     * Get the number of sections in the history.
+     */
+    public get sections(): number {
+        return this._snapshots.size;
+    }
+
+    /**
+     * Get the number of snapshots in the history.
+     */
+    public get size(): number {
+        return [...this._snapshots.values()].reduce((total, snapshots) => total + snapshots.length, 0);
+    }
+
+    /**
+     * Appends a snapshot of every section which changed since its previous snapshot (or is new) and returns how many
+     * were appended. Sections without a term can't be told apart across terms and are skipped.
+     * @param classes
+     * @param timestamp - When the classes were scraped. Defaults to now.
+     */
+    public async record(classes: Class[], timestamp: Date = new Date()): Promise<number> {
+        if (!(timestamp instanceof Date) || isNaN(timestamp.getTime())) throw new ValidationError('The timestamp must be a valid date.');
+
+        const changed: ISnapshot[] = [];
+        for (const classEntry of classes) {
+            if (classEntry.term === null || classEntry.term === undefined) continue;
+
+            const snapshot: ISnapshot = {
+                timestamp: timestamp.toISOString(),
+                term: classEntry.term,
+                crn: classEntry.crn,
+                courseID: classEntry.courseID,
+                title: classEntry.title,
+                projectedEnrollment: classEntry.projectedEnrollment,
+                currentEnrollment: classEntry.currentEnrollment,
+                seatsAvailable: classEntry.seatsAvailable,
+                status: classEntry.status
+            };
+
+            const previous = this.at(snapshot.crn, snapshot.term, timestamp);
+            if (previous && TRACKED_FIELDS.every(field => previous[field] === snapshot[field])) continue;
+
+            this.insert(snapshot);
+            changed.push(snapshot);
+        }
+
+        if (changed.length) {
+            try {
+                // Drop an incomplete last line first, so that it doesn't end up in the middle of the file.
+                if (this._validLength !== null) await fs.promises.truncate(this._filepath, this._validLength);
+                this._validLength = null;
+
+                await fs.promises.appendFile(this._filepath, changed.map(snapshot => JSON.stringify(snapshot) + '\n').join(''));
+            } catch (e) {
+                throw new ScraperError(`Unable to write to history file: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+
+        return changed.length;
+    }
+
+    /**
+     * Returns every snapshot of a section, oldest first. Each one holds until the next, e.g. for charting seatsAvailable
+     * over time.
+     * @example EnrollmentHistory.toCsv(history.series('12345', 202420))
+     * @param crn
+     * @param term - Defaults to the latest term with the CRN.
+     */
+    public series(crn: string, term?: number): ISnapshot[] {
+        const key = this.key(crn, term ?? this.latestTerm(crn));
+        return [...(this._snapshots.get(key) ?? [])];
+    }
+
+    /**
+     * Returns the snapshot in effect at a point in time: the latest one at or before it. Null if there is none.
+     * @param crn
+     * @param term - Defaults to the latest term with the CRN.
+     * @param time
+     */
+    public at(crn: string, term: number, time: Date): ISnapshot {
+        const snapshots = this._snapshots.get(this.key(crn, term ?? this.latestTerm(crn))) ?? [];
+        const found = snapshots.filter(snapshot => Date.parse(snapshot.timestamp) <= time.getTime()).pop();
+        return found ?? null;
+    }
+
+    /**
+     * Returns when a section last went from open to closed. Null if it is open, or was already closed in its first
+     * snapshot, so the time is unknown.
+     * @param crn
+     * @param term - Defaults to the latest term with the CRN.
+     */
+    public closedAt(crn: string, term?: number): Date {
+        const snapshots = this.series(crn, term);
+        if (!snapshots.length || snapshots[snapshots.length - 1].status !== 'CLOSED') return null;
+
+        for (let i = snapshots.length - 1; i > 0; i--) {
+            if (snapshots[i - 1].status === 'OPEN') return new Date(snapshots[i].timestamp);
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the sections which gained the most enrollment within a period, e.g. the first 24 hours of registration.
+     * The period starts at the given time or, by default, at the first snapshot of each term.
+     * @example history.fastestFilling({ term: 202420, since: new Date('2023-11-06T07:00:00-05:00'), hours: 24 })
+     * @param options
+     */
+    public fastestFilling(options: IFillRateOptions = {}): IFillRate[] {
+        const { term, since, hours = 24, limit = 10 } = options;
+        if (typeof hours !== 'number' || hours <= 0) throw new ValidationError('The number of hours must be positive.');
+
+        // The period of each term starts at its first snapshot unless given.
+        const starts = new Map<number, number>();
+        for (const snapshots of this._snapshots.values()) {
+            const first = Date.parse(snapshots[0].timestamp);
+            if (!starts.has(snapshots[0].term) || starts.get(snapshots[0].term) > first) starts.set(snapshots[0].term, first);
+        }
+
+        const rates: IFillRate[] = [];
+        for (const snapshots of this._snapshots.values()) {
+            const { crn, term: sectionTerm } = snapshots[0];
+            if (term !== undefined && sectionTerm !== term) continue;
+
+            const from = since ? since.getTime() : starts.get(sectionTerm);
+            const to = from + hours * 3600000;
+            const time = (snapshot: ISnapshot) => Date.parse(snapshot.timestamp);
+
+            // Sections listed after the start are measured from their first snapshot.
+            const before = snapshots.filter(snapshot => time(snapshot) <= from).pop() ?? snapshots.find(snapshot => time(snapshot) <= to);
+            const after = snapshots.filter(snapshot => time(snapshot) <= to).pop();
+            if (!before || !after || before.currentEnrollment === null || after.currentEnrollment === null) continue;
+
+            const closed = snapshots.find((snapshot, i) => i > 0 && time(snapshot) > from && time(snapshot) <= to &&
+                snapshot.status === 'CLOSED' && snapshots[i - 1].status === 'OPEN');
+
+            rates.push({
+                term: sectionTerm,
+                crn,
+                courseID: after.courseID,
+                title: after.title,
+                from: new Date(from).toISOString(),
+                to: new Date(to).toISOString(),
+                enrollmentBefore: before.currentEnrollment,
+                enrollmentAfter: after.currentEnrollment,
+                gained: after.currentEnrollment - before.currentEnrollment,
+                closedAt: closed ? closed.timestamp : null
+            });
+        }
+
+        return rates
+            .filter(rate => rate.gained > 0)
+            .sort((a, b) => b.gained - a.gained || Number(a.closedAt === null) - Number(b.closedAt === null) || (a.closedAt ?? '').localeCompare(b.closedAt ?? ''))
+            .slice(0, limit);
+    }
+
+    /**
+     * Converts snapshots or fill rates to CSV with a header row, e.g. for charting in a spreadsheet.
+     * @param rows - Results of series() or fastestFilling().
+     */
+    public static toCsv(rows: (ISnapshot | IFillRate)[]): string {
+        if (!rows.length) return '';
+
+        const columns = Object.keys(rows[0]);
+        return CsvFormat.stringify([columns, ...rows.map(row => columns.map(column => {
+            const value = row[column];
+            return value === null || value === undefined ? '' : String(value);
+        }))]);
+    }
+
+    /**
+     * Adds a snapshot in timestamp order.
+     * @private
+     */
+    private insert(snapshot: ISnapshot): void {
+        const key = this.key(snapshot.crn, snapshot.term);
+        if (!this._snapshots.has(key)) this._snapshots.set(key, []);
+
+        const snapshots = this._snapshots.get(key);
+        const time = Date.parse(snapshot.timestamp);
+        let index = snapshots.length;
+        while (index > 0 && Date.parse(snapshots[index - 1].timestamp) > time) index--;
+        snapshots.splice(index, 0, snapshot);
+    }
+
+    /**
+     * Returns the latest term in which a CRN was recorded, or null.
+     * @private
+     */
+    private latestTerm(crn: string): number {
+        const terms = [...this._snapshots.values()].filter(snapshots => snapshots[0].crn === crn).map(snapshots => snapshots[0].term);
+        return terms.length ? Math.max(...terms) : null;
+    }
+
+    /**
+     * @private
+     */
+    private key(crn: string, term: number): string {
+        return `${term}:${crn}`;
+    }
+}
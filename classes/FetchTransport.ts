@@ -0,0 +1,23 @@
+import {ITransport, ITransportOptions, ITransportResponse} from "../interfaces/ITransport";
+
+const fetch = require('node-fetch');
+
+/**
+ * The default transport. Performs requests over the network using node-fetch.
+ */
+export class FetchTransport implements ITransport {
+    public async request(url: string, options: ITransportOptions): Promise<ITransportResponse> {
+        const response = await fetch(url, options);
+
+        // Convert the Headers object into a plain object with lowercase keys.
+        const headers = {};
+        response.headers.forEach((value: string, key: string) => headers[key.toLowerCase()] = value);
+
+        return {
+            url,
+            status: response.status,
+            headers,
+            body: await response.text()
+        };
+    }
+}
@@ -0,0 +1,165 @@
+import {Class} from "./Class";
+import {DAYS} from "./Meeting";
+import {ValidationError} from "./ScraperError";
+import {IJsonClass} from "../interfaces/IJsonClass";
+import {IJsonFile} from "../interfaces/IJsonFile";
+
+/**
+ * Version of the envelope written by the saveToJson() method. Bump when the format changes.
+ * Version 1 is a bare array of classes as written by versions of this library before the envelope.
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * Reads and writes the versioned .json format of the saveToJson() and loadFromJson() methods.
+ */
+export class JsonFormat {
+    /**
+     * Converts classes to the contents of a .json file. Throws a ValidationError listing every class without a valid
+     * CRN, since the file couldn't be loaded again.
+     * @param classes
+     * @param metadata - When the classes were scraped and by whom.
+     */
+    public static serialize(classes: Class[], metadata: { scrapedAt?: Date, userAgent?: string } = {}): string {
+        const problems = classes.flatMap((classEntry, index) =>
+            Number.isInteger(Number(classEntry.crn)) ? [] : [`class ${index} (${classEntry.courseID}): CRN "${classEntry.crn}" is not an integer`]);
+        if (problems.length) throw new ValidationError('Unable to save classes without a valid CRN:', problems);
+
+        const file: IJsonFile = {
+            schemaVersion: SCHEMA_VERSION,
+            scrapedAt: metadata.scrapedAt ? metadata.scrapedAt.toISOString() : null,
+            terms: [...new Set(classes.map(classEntry => classEntry.term).filter(term => term !== null))],
+            userAgent: metadata.userAgent ?? null,
+            classes: classes.map(classEntry => classEntry.toJSON())
+        };
+
+        return JSON.stringify(file, null, 4);
+    }
+
+    /**
+     * Parses the contents of a .json file. Files from before the envelope (schema version 1) are upgraded.
+     * Throws a ValidationError listing every problem if the file is invalid or from a newer version.
+     * @param text
+     * @param source - Name of the file used in error messages.
+     */
+    public static parse(text: string, source: string = 'JSON file'): { file: IJsonFile, classes: Class[] } {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (e) {
+            throw new ValidationError(`${source} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+        }
+
+        if (typeof data !== 'object' || data === null)
+            throw new ValidationError(`${source} must contain an object with a schemaVersion and classes.`);
+
+        // Version 1 files are a bare array of classes. The fields of the envelope are checked below.
+        const file = (Array.isArray(data)
+            ? { schemaVersion: 1, scrapedAt: null, terms: [], userAgent: null, classes: data }
+            : data) as IJsonFile;
+
+        if (!Number.isInteger(file.schemaVersion) || file.schemaVersion < 1)
+            throw new ValidationError(`${source} has no valid schemaVersion. Was it created via the saveToJson() method?`);
+        if (file.schemaVersion > SCHEMA_VERSION)
+            throw new ValidationError(`${source} uses schema version ${file.schemaVersion}, but this version of the library only reads up to version ${SCHEMA_VERSION}. Please update wm-classes.`);
+        if (!Array.isArray(file.classes))
+            throw new ValidationError(`${source} has no classes array.`);
+        if (file.scrapedAt !== null && (typeof file.scrapedAt !== 'string' || isNaN(Date.parse(file.scrapedAt))))
+            throw new ValidationError(`${source} has an invalid scrapedAt timestamp.`);
+
+        return { file, classes: JsonFormat.fromEntries(file.classes, source, file.schemaVersion) };
+    }
+
+    /**
+     * Converts saved classes, e.g. the classes array of a .json file, into classes.
+     * Throws a ValidationError listing every problem if a class is invalid.
+     * @param entries
+     * @param source - Name of the file used in error messages.
+     * @param schemaVersion - Version of the format the classes were saved with. Defaults to the current version.
+     */
+    public static fromEntries(entries: unknown[], source: string = 'JSON file', schemaVersion: number = SCHEMA_VERSION): Class[] {
+        const problems = entries.flatMap((entry, index) => JsonFormat.validate(entry, index, schemaVersion));
+        if (problems.length) throw new ValidationError(`${source} contains invalid classes:`, problems);
+
+        return entries.map(entry => Class.fromJson(entry as IJsonClass));
+    }
+
+    /**
+     * Parses the contents of a .ndjson file written by a StreamWriter, with one class per line.
+     * An incomplete last line, as left by an interrupted scrape, is ignored.
+     * Throws a ValidationError listing every problem if a line is invalid.
+     * @param text
+     * @param source - Name of the file used in error messages.
+     */
+    public static parseLines(text: string, source: string = 'NDJSON file'): Class[] {
+        const lines = text.split(/\r?\n/);
+        const problems: string[] = [];
+        const entries: unknown[] = [];
+
+        lines.forEach((line, index) => {
+            if (line.trim() === '') return;
+
+            try {
+                entries.push(JSON.parse(line));
+            } catch (e) {
+                // Only the last line can be incomplete, since every class is written with its line break.
+                if (index !== lines.length - 1) problems.push(`line ${index + 1} is not valid JSON`);
+                return;
+            }
+
+            problems.push(...JsonFormat.validate(entries[entries.length - 1], index + 1, SCHEMA_VERSION)
+                .map(problem => problem.replace(/^class/, 'line')));
+        });
+
+        if (problems.length) throw new ValidationError(`${source} contains invalid classes:`, problems);
+
+        return entries.map(entry => Class.fromJson(entry as IJsonClass));
+    }
+
+    /**
+     * Returns a description of every problem with a saved class.
+     * @param entry
+     * @param index - Position in the classes array, used in the descriptions.
+     * @param schemaVersion
+     * @private
+     */
+    private static validate(value: unknown, index: number, schemaVersion: number): string[] {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`class ${index} is not an object`];
+
+        const entry = value as { [field: string]: unknown };
+        const problems: string[] = [];
+        const name = `class ${index}${Number.isInteger(entry._crn) ? ` (CRN ${entry._crn})` : ''}`;
+        const expect = (field: string, valid: boolean, description: string) => {
+            if (!valid) problems.push(`${name}: ${field} must be ${description}`);
+        };
+        const isNumberOrNull = (value: unknown) => value === null || (typeof value === 'number' && isFinite(value));
+
+        expect('_crn', Number.isInteger(entry._crn), 'an integer');
+        for (const field of ['_courseID', '_title', '_instructor', '_times']) expect(field, typeof entry[field] === 'string', 'a string');
+        expect('_attributes', Array.isArray(entry._attributes) && entry._attributes.every(attribute => typeof attribute === 'string'), 'an array of strings');
+        for (const field of ['_credits', '_projectedEnrollment', '_currentEnrollment', '_seatsAvailable']) expect(field, isNumberOrNull(entry[field]), 'a number or null');
+
+        // Older files may contain a boolean status.
+        const statuses: unknown[] = schemaVersion === 1 ? ['OPEN', 'CLOSED', true, false] : ['OPEN', 'CLOSED'];
+        expect('_status', statuses.includes(entry._status), schemaVersion === 1 ? 'OPEN, CLOSED or a boolean' : 'OPEN or CLOSED');
+
+        expect('_timesStatus', entry._timesStatus === undefined || ['PARSED', 'TBA', 'UNPARSEABLE'].includes(entry._timesStatus as string), 'PARSED, TBA or UNPARSEABLE');
+        expect('_term', entry._term === undefined || entry._term === null || Number.isInteger(entry._term), 'an integer or null');
+        expect('_subject', entry._subject === undefined || entry._subject === null || typeof entry._subject === 'string', 'a string or null');
+        expect('_meetings', entry._meetings === undefined || (Array.isArray(entry._meetings) && entry._meetings.every(meeting =>
+            typeof meeting === 'object' && meeting !== null &&
+            Array.isArray(meeting.days) && meeting.days.every(day => DAYS.includes(day)) &&
+            Number.isInteger(meeting.start) && Number.isInteger(meeting.end))), 'an array of meetings with days, start and end');
+
+        expect('_detailUrl', entry._detailUrl === undefined || entry._detailUrl === null || typeof entry._detailUrl === 'string', 'a string or null');
+
+        const details = entry._details as { [field: string]: unknown };
+        const isTextOrNull = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+        const isTextArray = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+        expect('_details', details === undefined || details === null || (typeof details === 'object' &&
+            ['description', 'prerequisites', 'location', 'building', 'comments'].every(field => isTextOrNull(details[field])) &&
+            isTextArray(details.levelRestrictions) && isTextArray(details.majorRestrictions)), 'an object of section details or null');
+
+        return problems;
+    }
+}
@@ -0,0 +1,162 @@
+import {Day, IMeeting, IParsedTimes, ITimeWindow} from "../interfaces/IMeeting";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * All days of the week in the order used by the Open Course List.
+ */
+export const DAYS: Day[] = ['M', 'T', 'W', 'R', 'F', 'S', 'U'];
+
+/**
+ * A single weekly meeting of a class, e.g. MWF from 10:00 to 10:50.
+ */
+export class Meeting {
+    private _days: Day[];
+    private _start: number;
+    private _end: number;
+
+    constructor(days: Day[], start: number, end: number) {
+        this.days = days;
+        this.start = start;
+        this.end = end;
+    }
+
+    /**
+     * Parses the raw times string of a class (e.g. "MWF:1000-1050" or "TR:0930-1050 W:1400-1650") into meetings.
+     * Strings that are empty or marked TBA are reported as TBA. Strings with any part that can't be understood are
+     * reported as UNPARSEABLE along with whichever meetings could be read.
+     * @param times
+     */
+    public static parse(times: string): IParsedTimes {
+        const trimmed = times ? times.trim() : '';
+        if (trimmed === '' || /^(TBA|ARR|ARRANGED)$/i.test(trimmed)) return { status: 'TBA', meetings: [] };
+
+        const pattern = /([MTWRFSU]+)\s*:?\s*(\d{3,4})\s*-\s*(\d{3,4})/g;
+        const meetings: IMeeting[] = [];
+        let unparsed = trimmed;
+
+        for (const match of trimmed.matchAll(pattern)) {
+            const start = Meeting.toMinutes(match[2]);
+            const end = Meeting.toMinutes(match[3]);
+            if (start === null || end === null || end < start) continue;
+
+            meetings.push({ days: [...new Set(match[1].split(''))] as Day[], start, end });
+            unparsed = unparsed.replace(match[0], '');
+        }
+
+        // Anything left besides separators means part of the string was not understood.
+        const leftover = unparsed.replace(/[\s,;/&]/g, '');
+        return { status: leftover === '' && meetings.length > 0 ? 'PARSED' : 'UNPARSEABLE', meetings };
+    }
+
+    /**
+     * Converts a time into minutes since midnight. Accepts minutes as a number or a "HH:MM" / "HHMM" string.
+     * Returns null if the time is not valid, including missing times.
+     * @param time
+     */
+    public static toMinutes(time: number | string): number {
+        if (typeof time === 'number') return time >= 0 && time <= 1440 ? time : null;
+        if (typeof time !== 'string') return null;
+
+        const match = /^(\d{1,2}):?(\d{2})$/.exec(time.trim());
+        if (!match) return null;
+
+        const hours = parseInt(match[1]);
+        const minutes = parseInt(match[2]);
+        if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+        return hours * 60 + minutes;
+    }
+
+    /**
+     * Formats minutes since midnight as a "HH:MM" string.
+     * @param minutes
+     */
+    public static formatMinutes(minutes: number): string {
+        return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Creates a meeting from its JSON representation.
+     * @param json
+     */
+    public static fromJson(json: IMeeting): Meeting {
+        return new Meeting(json.days, json.start, json.end);
+    }
+
+    set days(days: Day[]) {
+        if (!days.every(day => DAYS.includes(day))) throw new ValidationError(`Incorrect days. Must be one of ${DAYS.join(', ')}.`);
+        this._days = days;
+    }
+
+    get days(): Day[] {
+        return this._days;
+    }
+
+    /**
+     * Sets the start time as minutes since midnight.
+     * @param start
+     */
+    set start(start: number) {
+        this._start = start;
+    }
+
+    /**
+     * Returns the start time as minutes since midnight.
+     */
+    get start(): number {
+        return this._start;
+    }
+
+    /**
+     * Sets the end time as minutes since midnight.
+     * @param end
+     */
+    set end(end: number) {
+        this._end = end;
+    }
+
+    /**
+     * Returns the end time as minutes since midnight.
+     */
+    get end(): number {
+        return this._end;
+    }
+
+    /**
+     * Returns true if the meeting takes place on the given day.
+     * @param day
+     */
+    public meetsOn(day: Day): boolean {
+        return this._days.includes(day);
+    }
+
+    /**
+     * Returns true if the meeting shares any time with the given window.
+     * Meetings that end exactly when the window starts (or vice versa) do not overlap.
+     * @param window
+     */
+    public overlaps(window: ITimeWindow | Meeting): boolean {
+        const start = Meeting.toMinutes(window.start);
+        const end = Meeting.toMinutes(window.end);
+        if (start === null || end === null) throw new ValidationError('Incorrect time window. Times must be minutes or "HH:MM".');
+
+        const days = window.days && window.days.length ? window.days : DAYS;
+        if (!days.some(day => this.meetsOn(day))) return false;
+
+        return this._start < end && start < this._end;
+    }
+
+    /**
+     * Returns the meeting in the same format as the Open Course List, e.g. "MWF:1000-1050".
+     */
+    public toString(): string {
+        return `${this._days.join('')}:${Meeting.formatMinutes(this._start).replace(':', '')}-${Meeting.formatMinutes(this._end).replace(':', '')}`;
+    }
+
+    /**
+     * Returns a plain object used when saving to JSON.
+     */
+    public toJSON(): IMeeting {
+        return { days: this._days, start: this._start, end: this._end };
+    }
+}
@@ -0,0 +1,31 @@
+import * as fs from "fs";
+import * as path from "path";
+import {ITransport, ITransportOptions, ITransportResponse} from "../interfaces/ITransport";
+import {FetchTransport} from "./FetchTransport";
+import {ReplayTransport} from "./ReplayTransport";
+
+/**
+ * Performs requests with another transport (node-fetch by default) and saves every successful page to disk
+ * so that it can later be served by the ReplayTransport class.
+ * @example new Scraper('abcdef@wm.edu', 500, new RecordingTransport('./fixtures'))
+ */
+export class RecordingTransport implements ITransport {
+    private _directory: string;
+    private _transport: ITransport;
+
+    constructor(directory: string, transport: ITransport = new FetchTransport()) {
+        this._directory = directory;
+        this._transport = transport;
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    public async request(url: string, options: ITransportOptions): Promise<ITransportResponse> {
+        const response = await this._transport.request(url, options);
+
+        // Only save pages which can be replayed as-is.
+        if (response.status >= 200 && response.status < 300)
+            fs.writeFileSync(path.join(this._directory, ReplayTransport.fixtureName(url)), response.body);
+
+        return response;
+    }
+}
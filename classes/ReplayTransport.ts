@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import * as path from "path";
+import {createHash} from "crypto";
+import {ITransport, ITransportOptions, ITransportResponse} from "../interfaces/ITransport";
+import {NetworkError} from "./ScraperError";
+
+/**
+ * Thrown when the ReplayTransport class has no fixture for a request.
+ */
+class ReplayError extends NetworkError {}
+
+/**
+ * Serves every request from HTML fixtures previously saved by the RecordingTransport class. Never hits the network.
+ * @example new Scraper('abcdef@wm.edu', 500, new ReplayTransport('./fixtures'))
+ */
+export class ReplayTransport implements ITransport {
+    public readonly offline = true;
+    private _directory: string;
+
+    constructor(directory: string) {
+        if (!fs.existsSync(directory)) throw new ReplayError(`Fixture directory ${directory} does not exist.`);
+        this._directory = directory;
+    }
+
+    /**
+     * Returns the file name used to save the fixture of a URL.
+     * Readable names are derived from the path and query. Long names are shortened with a hash of the URL.
+     * @example ReplayTransport.fixtureName('https://courselist.wm.edu/courselist/courseinfo/') // courselist_courseinfo.html
+     * @param url
+     */
+    public static fixtureName(url: string): string {
+        const parsed = new URL(url);
+        const name = `${parsed.pathname}${parsed.search}`
+            .replace(/[^a-zA-Z0-9=_-]+/g, '_')
+            .replace(/^_+|_+$/g, '') || 'index';
+
+        if (name.length <= 150) return `${name}.html`;
+        return `${name.slice(0, 100)}_${createHash('sha1').update(url).digest('hex').slice(0, 12)}.html`;
+    }
+
+    public async request(url: string, options: ITransportOptions): Promise<ITransportResponse> {
+        const filepath = path.join(this._directory, ReplayTransport.fixtureName(url));
+        if (!fs.existsSync(filepath)) throw new ReplayError(`No fixture found for ${url} (expected ${filepath}).`);
+
+        return {
+            url,
+            status: 200,
+            headers: { 'content-type': 'text/html' },
+            body: fs.readFileSync(filepath, 'utf8')
+        };
+    }
+}
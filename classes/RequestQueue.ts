@@ -0,0 +1,238 @@
+import {IRateLimit} from "../interfaces/IRateLimit";
+import {IQueueOptions} from "../interfaces/IQueueOptions";
+import {ITransportResponse} from "../interfaces/ITransport";
+import {AbortError, RateLimitError, RequestError, ValidationError} from "./ScraperError";
+
+/**
+ * Options for an individual request scheduled with the RequestQueue class.
+ */
+export interface IRunOptions {
+    url: string,
+    signal?: AbortSignal,
+    throttle?: boolean, // Enforce the interval. Disable for offline transports. Defaults to true.
+    subject?: string,
+    term?: number,
+    onRetry?: (attempt: number, delay: number, reason: string) => void,
+    onWait?: (delay: number) => void // Called when the request waits for the interval before it is sent.
+}
+
+/**
+ * Schedules every request of the Scraper class. Enforces a minimum interval between requests, bounds the number of
+ * requests in progress, times out attempts and retries failed ones with exponential backoff.
+ */
+export class RequestQueue {
+    private _rateLimit: IRateLimit = {
+        _interval: 500,
+        _lastRequest: 0 // Date.now() millisecond timestamp of the latest (possibly reserved) request start
+    };
+    private _options: IQueueOptions = {
+        concurrency: 1,
+        retries: 3,
+        backoff: 1000,
+        maxBackoff: 30000,
+        timeout: 30000
+    };
+    private _active: number = 0;
+    private _waiting: (() => void)[] = [];
+
+    constructor(options: IQueueOptions = {}) {
+        const {interval, ...rest} = options;
+        if (interval !== undefined) this.interval = interval;
+
+        for (const [key, value] of Object.entries(rest)) {
+            if (value === undefined) continue;
+            if (typeof value !== 'number' || value < 0 || (key === 'concurrency' && value < 1))
+                throw new ValidationError(`Invalid queue option ${key}. Must be a positive number.`);
+            this._options[key] = value;
+        }
+    }
+
+    /**
+     * Set the minimum time in milliseconds between the start of two requests.
+     * @param ms
+     */
+    public set interval(ms: number) {
+        if (typeof ms !== 'number' || ms < 0) throw new ValidationError('Invalid interval. Must be a positive number.');
+        this._rateLimit._interval = ms;
+    }
+
+    /**
+     * Get the minimum time in milliseconds between the start of two requests.
+     */
+    public get interval(): number {
+        return this._rateLimit._interval;
+    }
+
+    /**
+     * Get the maximum number of requests in progress at once.
+     */
+    public get concurrency(): number {
+        return this._options.concurrency;
+    }
+
+    /**
+     * Runs a request once a slot is free and the interval has passed. Network errors, timeouts, 429 and 5xx responses
+     * are retried with exponential backoff, honoring the Retry-After header. Other 4xx responses are not retried.
+     * @param task - Performs a single attempt. Should stop when the given signal is aborted.
+     * @param options
+     */
+    public async run(task: (signal: AbortSignal) => Promise<ITransportResponse>, options: IRunOptions): Promise<ITransportResponse> {
+        const details = { url: options.url, subject: options.subject, term: options.term };
+
+        for (let attempt = 1; ; attempt++) {
+            let response: ITransportResponse = null;
+            let reason: string;
+
+            await this.acquire(options.signal);
+            try {
+                if (options.throttle !== false) await this.throttle(options.signal, options.onWait);
+                response = await this.attempt(task, options.signal);
+            } catch (e) {
+                if (e instanceof AbortError) throw e;
+                reason = e instanceof Error ? e.message : String(e);
+            } finally {
+                this.release();
+            }
+
+            let retryAfter: number = null;
+            if (response) {
+                if (response.status < 400) return response;
+
+                reason = `HTTP ${response.status}`;
+                if (response.status !== 429 && response.status < 500)
+                    throw new RequestError(reason, { ...details, attempts: attempt, status: response.status });
+
+                retryAfter = RequestQueue.parseRetryAfter(response.headers['retry-after']);
+            }
+
+            if (attempt > this._options.retries) {
+                const failure = { ...details, attempts: attempt, status: response ? response.status : undefined };
+                throw response && response.status === 429 ? new RateLimitError(reason, failure) : new RequestError(reason, failure);
+            }
+
+            const delay = Math.min(this._options.maxBackoff, retryAfter ?? this._options.backoff * 2 ** (attempt - 1));
+            if (options.onRetry) options.onRetry(attempt, delay, reason);
+            await RequestQueue.sleep(delay, options.signal);
+        }
+    }
+
+    /**
+     * Converts a Retry-After header (seconds or an HTTP date) into milliseconds. Returns null if missing or invalid.
+     * @param header
+     */
+    public static parseRetryAfter(header: string): number {
+        if (!header) return null;
+        if (/^\d+$/.test(header.trim())) return parseInt(header) * 1000;
+
+        const date = Date.parse(header);
+        return isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+
+    /**
+     * Waits for the given time. Rejects with an AbortError if the signal is aborted first.
+     * @param ms
+     * @param signal
+     */
+    public static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal && signal.aborted) return reject(new AbortError());
+
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new AbortError());
+            };
+            const timer = setTimeout(() => {
+                if (signal) signal.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+
+            if (signal) signal.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Performs a single attempt, abandoning it after the timeout or when the signal is aborted.
+     * @private
+     */
+    private attempt(task: (signal: AbortSignal) => Promise<ITransportResponse>, signal?: AbortSignal): Promise<ITransportResponse> {
+        if (signal && signal.aborted) return Promise.reject(new AbortError());
+
+        const controller = new AbortController();
+        return new Promise((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timer);
+                if (signal) signal.removeEventListener('abort', onAbort);
+            };
+            const onAbort = () => {
+                cleanup();
+                controller.abort();
+                reject(new AbortError());
+            };
+            const timer = setTimeout(() => {
+                cleanup();
+                controller.abort();
+                reject(new Error(`Timed out after ${this._options.timeout}ms`));
+            }, this._options.timeout);
+
+            if (signal) signal.addEventListener('abort', onAbort, { once: true });
+
+            task(controller.signal).then(
+                response => { cleanup(); resolve(response); },
+                error => { cleanup(); reject(error); }
+            );
+        });
+    }
+
+    /**
+     * Reserves the next request start time and waits until it is reached.
+     * @private
+     */
+    private async throttle(signal?: AbortSignal, onWait?: (delay: number) => void): Promise<void> {
+        const now = Date.now();
+        const start = Math.max(now, this._rateLimit._lastRequest + this._rateLimit._interval);
+        this._rateLimit._lastRequest = start;
+
+        if (start > now) {
+            if (onWait) onWait(start - now);
+            await RequestQueue.sleep(start - now, signal);
+        }
+    }
+
+    /**
+     * Waits until fewer requests than the concurrency limit are in progress.
+     * @private
+     */
+    private acquire(signal?: AbortSignal): Promise<void> {
+        if (signal && signal.aborted) return Promise.reject(new AbortError());
+
+        if (this._active < this._options.concurrency) {
+            this._active++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this._waiting.splice(this._waiting.indexOf(next), 1);
+                reject(new AbortError());
+            };
+            const next = () => {
+                if (signal) signal.removeEventListener('abort', onAbort);
+                this._active++;
+                resolve();
+            };
+
+            this._waiting.push(next);
+            if (signal) signal.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Frees a slot and starts the next waiting request, if any.
+     * @private
+     */
+    private release(): void {
+        this._active--;
+        const next = this._waiting.shift();
+        if (next) next();
+    }
+}
@@ -0,0 +1,155 @@
+import * as fs from "fs";
+import * as path from "path";
+import {createHash} from "crypto";
+import {ITransportResponse} from "../interfaces/ITransport";
+import {CachedPage, ICacheEntry, ICacheOptions, ICacheStats} from "../interfaces/ICache";
+import {ScraperError, ValidationError} from "./ScraperError";
+
+/**
+ * Stores the pages of the Open Course List on disk, keyed by URL, so that repeated scrapes don't hit W&M's servers.
+ * The terms and subjects page, which rarely changes, and the other pages have separate TTLs. Stale entries are kept
+ * and revalidated with If-None-Match/If-Modified-Since when the server sent an ETag or Last-Modified header.
+ * @example scraper.cache = new ResponseCache('./cache', { ttl: { results: 60 * 60 * 1000 } });
+ */
+export class ResponseCache {
+    private _directory: string;
+    private _ttl = {
+        courseInfo: 24 * 60 * 60 * 1000,
+        results: 10 * 60 * 1000
+    };
+    private _stats: ICacheStats = { hits: 0, misses: 0, revalidated: 0, stored: 0 };
+    /**
+     * Ignore fresh entries and request every page again. Responses are still saved.
+     */
+    public forceRefresh: boolean;
+
+    constructor(directory: string, options: ICacheOptions = {}) {
+        for (const [kind, ttl] of Object.entries(options.ttl ?? {})) {
+            if (ttl === undefined) continue;
+            if (!(kind in this._ttl) || typeof ttl !== 'number' || ttl < 0)
+                throw new ValidationError(`Invalid cache TTL ${kind}. Must be a positive number of milliseconds.`);
+            this._ttl[kind] = ttl;
+        }
+
+        this._directory = directory;
+        this.forceRefresh = options.forceRefresh ?? false;
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    /**
+     * Get the number of hits, misses, revalidations and stored responses since the cache was created.
+     */
+    public get stats(): ICacheStats {
+        return { ...this._stats };
+    }
+
+    /**
+     * Returns how long a kind of page stays fresh, in milliseconds.
+     * @param page - The terms and subjects page (courseInfo) or any other page (results).
+     */
+    public ttl(page: CachedPage): number {
+        return this._ttl[page];
+    }
+
+    /**
+     * Returns the saved entry of a URL, fresh or not, or null if there is none or it can't be read.
+     * @param url
+     */
+    public async get(url: string): Promise<ICacheEntry> {
+        try {
+            const entry: ICacheEntry = JSON.parse(await fs.promises.readFile(this.filepath(url), 'utf8'));
+            return entry.url === url && typeof entry.body === 'string' ? entry : null;
+        } catch (e) {
+            return null; // Missing or corrupt entries are requested again.
+        }
+    }
+
+    /**
+     * Looks up a URL before it is requested. Returns the entry to serve if it is fresh, and otherwise the headers
+     * which make the request conditional on a stale entry, if any. Counts a hit or a miss.
+     * @param url
+     * @param page - Decides the TTL. Defaults to results.
+     */
+    public async lookup(url: string, page: CachedPage = 'results'): Promise<{ fresh: ICacheEntry, stale: ICacheEntry, headers: { [header: string]: string } }> {
+        const entry = this.forceRefresh ? null : await this.get(url);
+
+        if (entry && Date.now() - Date.parse(entry.fetchedAt) < this.ttl(page)) {
+            this._stats.hits++;
+            return { fresh: entry, stale: null, headers: {} };
+        }
+
+        const headers = {};
+        if (entry && entry.headers['etag']) headers['If-None-Match'] = entry.headers['etag'];
+        if (entry && entry.headers['last-modified']) headers['If-Modified-Since'] = entry.headers['last-modified'];
+
+        // Only entries which can be revalidated are worth keeping for the request.
+        const stale = Object.keys(headers).length ? entry : null;
+        if (!stale) this._stats.misses++;
+        return { fresh: null, stale, headers };
+    }
+
+    /**
+     * Saves the response to a request made after lookup(). A 304 Not Modified renews the stale entry, which is
+     * returned in its place. Only successful responses are saved.
+     * @param url
+     * @param response
+     * @param stale - The stale entry returned by lookup(), if any.
+     */
+    public async store(url: string, response: ITransportResponse, stale: ICacheEntry = null): Promise<ITransportResponse> {
+        if (response.status === 304 && stale) {
+            this._stats.revalidated++;
+            await this.write({ ...stale, headers: { ...stale.headers, ...response.headers }, fetchedAt: new Date().toISOString() });
+            return ResponseCache.toResponse(stale);
+        }
+
+        // A full response to a conditional request means the page changed.
+        if (stale) this._stats.misses++;
+
+        if (response.status >= 200 && response.status < 300) {
+            await this.write({ url, status: response.status, headers: response.headers, body: response.body, fetchedAt: new Date().toISOString() });
+            this._stats.stored++;
+        }
+
+        return response;
+    }
+
+    /**
+     * Deletes every entry of the cache.
+     */
+    public async clear(): Promise<void> {
+        const files = await fs.promises.readdir(this._directory);
+        await Promise.all(files.filter(file => file.endsWith('.json')).map(file => fs.promises.unlink(path.join(this._directory, file))));
+    }
+
+    /**
+     * Converts an entry back into the response it was saved from.
+     * @param entry
+     */
+    public static toResponse(entry: ICacheEntry): ITransportResponse {
+        return { url: entry.url, status: entry.status, headers: entry.headers, body: entry.body };
+    }
+
+    /**
+     * Writes an entry through a temporary file, so that an interrupted write doesn't leave a corrupt entry.
+     * @private
+     */
+    private async write(entry: ICacheEntry): Promise<void> {
+        const filepath = this.filepath(entry.url);
+        const temporary = `${filepath}.tmp`;
+
+        try {
+            await fs.promises.writeFile(temporary, JSON.stringify(entry));
+            await fs.promises.rename(temporary, filepath);
+        } catch (e) {
+            throw new ScraperError(`Unable to write to cache: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    /**
+     * Returns the file of the entry of a URL.
+     * @private
+     */
+    private filepath(url: string): string {
+        return path.join(this._directory, `${createHash('sha1').update(url).digest('hex')}.json`);
+    }
+}
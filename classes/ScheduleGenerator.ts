@@ -0,0 +1,166 @@
+import {Class} from "./Class";
+import {ClassQuery} from "./ClassQuery";
+import {DAYS, Meeting} from "./Meeting";
+import {ISchedule, IScheduleOptions, SchedulePreference} from "../interfaces/ISchedule";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the ScheduleGenerator class is given invalid arguments or data.
+ */
+class ScheduleError extends ValidationError {}
+
+/**
+ * Default of the maximum number of schedules built by generate().
+ */
+const MAX_SCHEDULES = 100000;
+
+/**
+ * Generates every combination of one section per course without overlapping meetings.
+ * @example new ScheduleGenerator(scraper.classData).generate(['CSCI 141', 'MATH 112'], { freeDays: ['F'] })
+ */
+export class ScheduleGenerator {
+    private _classData: Class[];
+
+    constructor(classData: Class[]) {
+        this._classData = classData;
+    }
+
+    /**
+     * Returns all sections of a course. Matches either the full course ID of a section (e.g. "CSCI 141 01")
+     * or the course ID without the section number (e.g. "CSCI 141").
+     * @param courseID
+     */
+    public sectionsOf(courseID: string): Class[] {
+        return new ClassQuery(this._classData).ofCourse(courseID).run();
+    }
+
+    /**
+     * Enumerates all valid schedules for the given courses, ranked by the given preferences.
+     * Throws if a course has no sections at all. Returns an empty array if no combination satisfies the constraints.
+     * With a limit, only the best schedules found so far are kept in memory. The search stops after building
+     * options.maxSchedules schedules (100,000 by default), in which case only those are ranked.
+     * @param courseIDs
+     * @param options
+     */
+    public generate(courseIDs: string[], options: IScheduleOptions = {}): ISchedule[] {
+        if (!Array.isArray(courseIDs) || courseIDs.length === 0)
+            throw new ScheduleError('At least one course ID must be provided.');
+
+        const earliestStart = options.earliestStart !== undefined ? Meeting.toMinutes(options.earliestStart) : null;
+        const latestEnd = options.latestEnd !== undefined ? Meeting.toMinutes(options.latestEnd) : null;
+        if ((options.earliestStart !== undefined && earliestStart === null) || (options.latestEnd !== undefined && latestEnd === null))
+            throw new ScheduleError('Incorrect time constraint. Times must be minutes or "HH:MM".');
+
+        const maxSchedules = options.maxSchedules ?? MAX_SCHEDULES;
+        if (!Number.isInteger(maxSchedules) || maxSchedules < 1)
+            throw new ScheduleError('Incorrect maxSchedules. Must be a positive integer.');
+
+        // Find the candidate sections of each course which satisfy the constraints on their own.
+        const candidates = [...new Set(courseIDs)].map(courseID => {
+            const sections = this.sectionsOf(courseID);
+            if (sections.length === 0) throw new ScheduleError(`No sections found for ${courseID}.`);
+
+            return sections.filter(section => {
+                if (options.openOnly && section.status !== 'OPEN') return false;
+                if (section.timesStatus !== 'PARSED') return options.allowUnscheduled !== false;
+
+                return section.meetings.every(meeting =>
+                    (earliestStart === null || meeting.start >= earliestStart) &&
+                    (latestEnd === null || meeting.end <= latestEnd) &&
+                    !(options.freeDays || []).some(day => meeting.meetsOn(day)));
+            });
+        });
+
+        // Courses with the fewest sections are placed first to prune the search early.
+        candidates.sort((a, b) => a.length - b.length);
+
+        // Schedules are kept ranked as they are built, and only the best ones if there is a limit.
+        const preferences = options.rankBy || ['compact'];
+        const ranked: ISchedule[] = [];
+        const chosen: Class[] = [];
+        let built = 0;
+        const search = (index: number) => {
+            if (index === candidates.length) {
+                built++;
+                const schedule = ScheduleGenerator.describe([...chosen]);
+                if (options.limit && ranked.length === options.limit && ScheduleGenerator.compare(schedule, ranked[ranked.length - 1], preferences) >= 0) return;
+
+                // Insert after every schedule which ranks the same or better, like a stable sort.
+                let low = 0, high = ranked.length;
+                while (low < high) {
+                    const middle = (low + high) >> 1;
+                    if (ScheduleGenerator.compare(schedule, ranked[middle], preferences) < 0) high = middle;
+                    else low = middle + 1;
+                }
+                ranked.splice(low, 0, schedule);
+                if (options.limit && ranked.length > options.limit) ranked.pop();
+                return;
+            }
+
+            for (const section of candidates[index]) {
+                if (built >= maxSchedules) return;
+                if (chosen.some(other => ScheduleGenerator.conflicts(section, other))) continue;
+
+                chosen.push(section);
+                search(index + 1);
+                chosen.pop();
+            }
+        };
+        search(0);
+
+        return ranked;
+    }
+
+    /**
+     * Returns true if any meetings of the two sections overlap.
+     * @param a
+     * @param b
+     */
+    public static conflicts(a: Class, b: Class): boolean {
+        return a.meetings.some(meeting => b.meetings.some(other => meeting.overlaps(other)));
+    }
+
+    /**
+     * Computes the statistics used for ranking a combination of sections.
+     * @param sections
+     * @private
+     */
+    private static describe(sections: Class[]): ISchedule {
+        const meetings = sections.flatMap(section => section.meetings);
+        const days = DAYS.filter(day => meetings.some(meeting => meeting.meetsOn(day)));
+
+        // Sum the time between consecutive meetings on each day.
+        let gapMinutes = 0;
+        for (const day of days) {
+            const today = meetings.filter(meeting => meeting.meetsOn(day)).sort((a, b) => a.start - b.start);
+            for (let i = 1; i < today.length; i++) gapMinutes += Math.max(0, today[i].start - today[i - 1].end);
+        }
+
+        return {
+            sections,
+            days,
+            gapMinutes,
+            firstStart: meetings.length ? Math.min(...meetings.map(meeting => meeting.start)) : null,
+            lastEnd: meetings.length ? Math.max(...meetings.map(meeting => meeting.end)) : null
+        };
+    }
+
+    /**
+     * Compares two schedules by each preference in order.
+     * @private
+     */
+    private static compare(a: ISchedule, b: ISchedule, preferences: SchedulePreference[]): number {
+        for (const preference of preferences) {
+            let difference: number;
+            switch (preference) {
+                case 'compact': difference = a.gapMinutes - b.gapMinutes; break;
+                case 'fewestDays': difference = a.days.length - b.days.length; break;
+                case 'lateStart': difference = (b.firstStart ?? 0) - (a.firstStart ?? 0); break;
+                case 'earlyEnd': difference = (a.lastEnd ?? 0) - (b.lastEnd ?? 0); break;
+                default: throw new ScheduleError(`Unknown preference ${preference}.`);
+            }
+            if (difference !== 0) return difference;
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,114 @@
+import {IParseWarning} from "../interfaces/IParseWarning";
+
+/**
+ * Stable codes of the errors thrown by the scraper, so callers can react to a kind of failure without matching messages.
+ * NETWORK_ERROR: a request failed, RATE_LIMITED: W&M kept answering 429, LAYOUT_CHANGED: a page couldn't be understood,
+ * VALIDATION_FAILED: a file or argument is invalid, ABORTED: cancelled through an AbortSignal.
+ */
+export type ScraperErrorCode = 'SCRAPER_ERROR' | 'NETWORK_ERROR' | 'RATE_LIMITED' | 'LAYOUT_CHANGED' | 'VALIDATION_FAILED' | 'ABORTED';
+
+/**
+ * Custom Error Class for Scraper. Errors thrown by the scraper and its classes are ScraperErrors with a code, e.g. the
+ * errors of queries, schedules and exports are ValidationErrors. The ApiServer answers with an HTTP status instead.
+ */
+export class ScraperError extends Error {
+    public readonly code: ScraperErrorCode;
+
+    constructor(message: string, code: ScraperErrorCode = 'SCRAPER_ERROR') {
+        super(`W&M Scrapper Error: ${message}`);
+        this.code = code;
+        this.name = this.constructor.name;
+        Error.captureStackTrace(this, this.constructor);
+    }
+}
+
+/**
+ * Thrown when a request can't be completed, e.g. because W&M's servers are unreachable.
+ */
+export class NetworkError extends ScraperError {
+    constructor(message: string, code: ScraperErrorCode = 'NETWORK_ERROR') {
+        super(message, code);
+    }
+}
+
+/**
+ * Details about a failed request. The subject and term are set when the request was made while scraping course data.
+ */
+export interface IRequestErrorDetails {
+    url: string,
+    attempts: number,
+    status?: number,
+    subject?: string,
+    term?: number
+}
+
+/**
+ * Thrown when a request still fails after all retries, or fails with a status that isn't retried.
+ */
+export class RequestError extends NetworkError {
+    public readonly url: string;
+    public readonly attempts: number;
+    public readonly status: number;
+    public readonly subject: string;
+    public readonly term: number;
+
+    constructor(reason: string, details: IRequestErrorDetails, code: ScraperErrorCode = 'NETWORK_ERROR') {
+        const target = details.subject ? `${details.subject} (term ${details.term})` : details.url;
+        super(`Request for ${target} failed after ${details.attempts} attempt(s): ${reason}`, code);
+
+        this.url = details.url;
+        this.attempts = details.attempts;
+        this.status = details.status ?? null;
+        this.subject = details.subject ?? null;
+        this.term = details.term ?? null;
+    }
+}
+
+/**
+ * Thrown when W&M still answers 429 Too Many Requests after all retries. Consider a longer rate limit.
+ */
+export class RateLimitError extends RequestError {
+    constructor(reason: string, details: IRequestErrorDetails) {
+        super(reason, details, 'RATE_LIMITED');
+    }
+}
+
+/**
+ * Thrown when a page of the Open Course List can't be understood, most likely because its layout changed.
+ * Lists the parse warnings which led to the failure.
+ */
+export class LayoutError extends ScraperError {
+    public readonly url: string;
+    public readonly warnings: IParseWarning[];
+
+    constructor(message: string, url: string = null, warnings: IParseWarning[] = []) {
+        super(warnings.length ? `${message} ${warnings.map(warning => warning.message).join(' ')}` : message, 'LAYOUT_CHANGED');
+
+        this.url = url;
+        this.warnings = warnings;
+    }
+}
+
+/**
+ * Thrown when a request or scrape is cancelled through an AbortSignal.
+ */
+export class AbortError extends ScraperError {
+    constructor(message: string = 'The scrape was aborted.') {
+        super(message, 'ABORTED');
+    }
+}
+
+/**
+ * Thrown when a saved file or an argument is invalid. Lists every problem found.
+ */
+export class ValidationError extends ScraperError {
+    public readonly problems: string[];
+
+    constructor(message: string, problems: string[] = []) {
+        const shown = problems.slice(0, 5).join('; ');
+        const more = problems.length > 5 ? ` (and ${problems.length - 5} more)` : '';
+        super(problems.length ? `${message} ${shown}${more}` : message, 'VALIDATION_FAILED');
+
+        this.problems = problems;
+    }
+}
@@ -0,0 +1,203 @@
+import {Class} from "./Class";
+import {ISearchOptions, ISearchResult, SearchField} from "../interfaces/ISearch";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the SearchIndex class is given invalid arguments or data.
+ */
+class SearchError extends ValidationError {}
+
+/**
+ * How much a word found in each field counts towards the score.
+ */
+const WEIGHTS: { [field in SearchField]: number } = {
+    courseID: 3,
+    title: 2,
+    instructor: 2,
+    attributes: 1
+};
+
+/**
+ * Words which are too common to tell sections apart.
+ */
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'to', 'in', 'for', 'on', 'with', 'at', 'by']);
+
+/**
+ * A full-text index over the course IDs, titles, instructors and attributes of a list of classes. Searches rank
+ * sections by relevance and tolerate partial words ("intro", "comp sci") and typos ("Smtih").
+ * The index doesn't follow later changes to the list. Scraper.search() rebuilds it when classData changes.
+ * @example
+ * const index = new SearchIndex(scraper.classData);
+ * index.search('intro computer science', { limit: 5 }).forEach(result => console.log(result.classEntry.title));
+ */
+export class SearchIndex {
+    private _classes: Class[];
+    private _postings: Map<string, Map<number, SearchField[]>> = new Map(); // Token → section → fields containing it
+
+    constructor(classes: Class[]) {
+        this._classes = [...classes];
+
+        this._classes.forEach((classEntry, index) => {
+            const fields: { [field in SearchField]: string[] } = {
+                courseID: SearchIndex.courseIDTokens(classEntry.courseID),
+                title: SearchIndex.tokenize(classEntry.title),
+                instructor: SearchIndex.tokenize(classEntry.instructor),
+                attributes: classEntry.attributes.flatMap(attribute => SearchIndex.tokenize(attribute))
+            };
+
+            for (const [field, tokens] of Object.entries(fields) as [SearchField, string[]][]) {
+                for (const token of tokens) {
+                    if (!this._postings.has(token)) this._postings.set(token, new Map());
+                    const sections = this._postings.get(token);
+                    if (!sections.has(index)) sections.set(index, []);
+                    if (!sections.get(index).includes(field)) sections.get(index).push(field);
+                }
+            }
+        });
+    }
+
+    /**
+     * Get the number of sections in the index.
+     */
+    public get size(): number {
+        return this._classes.length;
+    }
+
+    /**
+     * Returns the sections matching the query, most relevant first. Sections matching more words of the query always
+     * rank first. Every word can match the start of a word ("intro" for "Introduction"), a word it starts with ("sci"
+     * in "Computer Sci" for "science") or, with fuzzy on, a word with a typo or two.
+     * @example scraper.search('discrete math', { term: 202420 })
+     * @param query
+     * @param options
+     */
+    public search(query: string, options: ISearchOptions = {}): ISearchResult[] {
+        if (typeof query !== 'string') throw new SearchError(`The query must be a string. You passed ${typeof query}.`);
+
+        const { limit = 20, term, fuzzy = true } = options;
+        if (!Number.isInteger(limit) || limit < 1) throw new SearchError('The limit must be a positive integer.');
+
+        const words = [...new Set(SearchIndex.tokenize(query))];
+        const results = new Map<number, ISearchResult>();
+
+        for (const word of words) {
+            // The best match of this word in every section.
+            const best = new Map<number, { score: number, fields: SearchField[] }>();
+
+            for (const [token, similarity] of this.expand(word, fuzzy)) {
+                const sections = this._postings.get(token);
+                const rarity = Math.log(1 + this._classes.length / sections.size);
+
+                for (const [index, fields] of sections) {
+                    const score = similarity * rarity * Math.max(...fields.map(field => WEIGHTS[field]));
+                    if (!best.has(index) || best.get(index).score < score) best.set(index, { score, fields });
+                }
+            }
+
+            for (const [index, match] of best) {
+                const classEntry = this._classes[index];
+                if (term !== undefined && classEntry.term !== term) continue;
+
+                if (!results.has(index)) results.set(index, { classEntry, score: 0, matched: 0, fields: [] });
+                const result = results.get(index);
+                result.score += match.score;
+                result.matched++;
+                result.fields.push(...match.fields.filter(field => !result.fields.includes(field)));
+            }
+        }
+
+        return [...results.values()]
+            .sort((a, b) => b.matched - a.matched || b.score - a.score || a.classEntry.courseID.localeCompare(b.classEntry.courseID))
+            .slice(0, limit)
+            .map(result => ({ ...result, score: Math.round(result.score * 1000) / 1000 }));
+    }
+
+    /**
+     * Splits text into lowercase words without accents, punctuation or stop words.
+     * @example SearchIndex.tokenize('Intro to Computer Sci.') // ['intro', 'computer', 'sci']
+     * @param text
+     */
+    public static tokenize(text: string): string[] {
+        if (!text) return [];
+
+        return text
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(word => word !== '' && !STOP_WORDS.has(word));
+    }
+
+    /**
+     * Returns the words of a course ID plus the subject and number written together, e.g. "csci141" for "CSCI 141 01".
+     * @private
+     */
+    private static courseIDTokens(courseID: string): string[] {
+        const tokens = SearchIndex.tokenize(courseID);
+        return tokens.length > 1 ? [...tokens, tokens[0] + tokens[1]] : tokens;
+    }
+
+    /**
+     * Returns every token of the index a word of a query matches, with how similar it is from 0 to 1.
+     * Words with digits, such as course numbers, only match exactly or by their start.
+     * @private
+     */
+    private expand(word: string, fuzzy: boolean): Map<string, number> {
+        const matches = new Map<string, number>();
+        const typos = !fuzzy || /\d/.test(word) ? 0 : word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+
+        for (const token of this._postings.keys()) {
+            let similarity = 0;
+
+            if (token === word) {
+                similarity = 1;
+            } else if (token.startsWith(word)) {
+                similarity = 0.7 + 0.3 * word.length / token.length; // Partial words
+            } else if (token.length >= 3 && word.startsWith(token) && !/\d/.test(word)) {
+                similarity = 0.6; // Abbreviations in titles, e.g. "Sci" for "Science"
+            } else if (typos && Math.abs(token.length - word.length) <= typos) {
+                const distance = SearchIndex.distance(word, token, typos);
+                if (distance <= typos) similarity = 0.6 - 0.15 * (distance - 1);
+            }
+
+            // Typos in partial words, e.g. "computr" for "Computational".
+            if (!similarity && typos && token.length > word.length && SearchIndex.distance(word, token.slice(0, word.length), typos) <= typos)
+                similarity = 0.5;
+
+            if (similarity) matches.set(token, similarity);
+        }
+
+        return matches;
+    }
+
+    /**
+     * Returns the number of insertions, deletions, substitutions and swaps of adjacent letters turning one word into
+     * another. Stops counting once the result is known to be above max.
+     * @private
+     */
+    private static distance(a: string, b: string, max: number): number {
+        if (Math.abs(a.length - b.length) > max) return max + 1;
+
+        let previous2: number[] = [];
+        let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            let lowest = i;
+
+            for (let j = 1; j <= b.length; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+                if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+                    current[j] = Math.min(current[j], previous2[j - 2] + 1);
+                lowest = Math.min(lowest, current[j]);
+            }
+
+            if (lowest > max) return max + 1;
+            previous2 = previous;
+            previous = current;
+        }
+
+        return previous[b.length];
+    }
+}
@@ -0,0 +1,197 @@
+import {EventEmitter} from "events";
+import {Class} from "./Class";
+import type {Scraper} from "../scraper";
+import {FetchTransport} from "./FetchTransport";
+import {SnapshotDiff} from "./SnapshotDiff";
+import {AbortError, NetworkError, ValidationError} from "./ScraperError";
+import {IWatchEvent, IWatcherOptions, WatchEventType} from "../interfaces/IWatcher";
+
+/**
+ * Typed events of the SeatWatcher class. Error is emitted when a poll or webhook delivery fails while started.
+ * Without an error listener, failures are passed to the error method of the scraper's logger instead.
+ */
+export interface SeatWatcher {
+    on(event: WatchEventType, listener: (event: IWatchEvent) => void): this;
+    on(event: 'poll', listener: (events: IWatchEvent[]) => void): this;
+    on(event: 'error', listener: (error: Error) => void): this;
+    once(event: WatchEventType, listener: (event: IWatchEvent) => void): this;
+    once(event: 'poll', listener: (events: IWatchEvent[]) => void): this;
+    once(event: 'error', listener: (error: Error) => void): this;
+    emit(event: WatchEventType, payload: IWatchEvent): boolean;
+    emit(event: 'poll', events: IWatchEvent[]): boolean;
+    emit(event: 'error', error: Error): boolean;
+}
+
+/**
+ * Polls the subjects of a set of CRNs or course IDs and emits events when their seats or status change.
+ * Only the subjects of the watched sections are re-scraped. Requests go through the scraper's queue and rate limit.
+ * @example
+ * const watcher = new SeatWatcher(scraper, { crns: ['12345'], interval: 60000 });
+ * watcher.on('seatOpened', event => console.log(`${event.courseID} has ${event.after.seatsAvailable} seats!`));
+ * watcher.start();
+ */
+export class SeatWatcher extends EventEmitter {
+    private _scraper: Scraper;
+    private _options: IWatcherOptions;
+    private _crns: Set<string>;
+    private _subjects: string[];
+    private _known: Map<string, Class> = new Map();
+    private _timer: NodeJS.Timeout = null;
+    private _controller: AbortController = null;
+    private _running: boolean = false;
+
+    constructor(scraper: Scraper, options: IWatcherOptions) {
+        super();
+        this._scraper = scraper;
+        this._options = { interval: 60000, ...options };
+        this._crns = new Set(options.crns || []);
+
+        if (this._crns.size === 0 && (!options.courseIDs || options.courseIDs.length === 0))
+            throw new ValidationError('At least one CRN or course ID must be watched.');
+
+        // The subject is the first part of a course ID. CRNs are looked up in the scraper's current data.
+        const subjects = new Set<string>((options.courseIDs || []).map(courseID => courseID.trim().split(/\s+/)[0].toUpperCase()));
+        for (const crn of this._crns) {
+            const known = scraper.findClassByCrn(crn);
+            if (!known) throw new ValidationError(`CRN ${crn} is not found. Call getCourseData() or loadFromJson() before watching it.`);
+
+            subjects.add(known.subject);
+        }
+        this._subjects = [...subjects];
+
+        // Known sections of the watched term are used as the starting point. Otherwise, the first poll sets it.
+        const term = options.term ?? scraper.courselistData.terms.latest;
+        const known = this.watched(scraper.classData).filter(section => term && Number(section.term) === Number(term));
+        for (const section of known) this._known.set(section.crn, section);
+    }
+
+    /**
+     * Returns the subjects which are re-scraped on every poll.
+     */
+    get subjects(): string[] {
+        return this._subjects;
+    }
+
+    /**
+     * Returns true while the watcher is started.
+     */
+    get running(): boolean {
+        return this._running;
+    }
+
+    /**
+     * Starts polling immediately and then every interval until stopped.
+     */
+    public start(): void {
+        if (this._running) return;
+        this._running = true;
+
+        const loop = async () => {
+            try {
+                await this.poll();
+            } catch (e) {
+                if (!(e instanceof AbortError)) this.reportError(e);
+            }
+            if (this._running) this._timer = setTimeout(loop, this._options.interval);
+        };
+        loop();
+    }
+
+    /**
+     * Stops polling and cancels any request in progress.
+     */
+    public stop(): void {
+        this._running = false;
+        if (this._timer) clearTimeout(this._timer);
+        if (this._controller) this._controller.abort();
+        this._timer = null;
+    }
+
+    /**
+     * Re-scrapes the watched subjects once, emits an event for every change and returns the events.
+     * The first poll compares against the scraper's data at the time the watcher was created.
+     */
+    public async poll(): Promise<IWatchEvent[]> {
+        this._controller = new AbortController();
+        const current: Class[] = [];
+
+        try {
+            for (const subject of this._subjects) {
+                const classes = await this._scraper.fetchClasses(subject, this._options.term, this._controller.signal);
+                current.push(...this.watched(classes));
+            }
+        } finally {
+            this._controller = null;
+        }
+
+        const diff = new SnapshotDiff([...this._known.values()], current);
+        const currentByCrn = new Map(current.map(classEntry => [classEntry.crn, classEntry]));
+        const timestamp = Date.now();
+        const events: IWatchEvent[] = [];
+
+        for (const change of diff.changes) {
+            const before = this._known.get(change.crn) || null;
+            const after = currentByCrn.get(change.crn) || null;
+            const event = (type: WatchEventType): IWatchEvent =>
+                ({ type, crn: change.crn, courseID: change.courseID, title: change.title, before, after, timestamp });
+
+            if (change.type === 'REMOVED') events.push(event('sectionRemoved'));
+            if (change.type !== 'CHANGED') continue;
+
+            for (const field of change.changes) {
+                if (field.field === 'seatsAvailable' && field.before <= 0 && field.after > 0) events.push(event('seatOpened'));
+                if (field.field === 'seatsAvailable' && field.before > 0 && field.after <= 0) events.push(event('seatFilled'));
+                if (field.field === 'status') events.push(event('statusChanged'));
+            }
+        }
+
+        this._known = currentByCrn;
+
+        for (const event of events) {
+            this.emit(event.type, event);
+            if (this._options.webhook) await this.deliver(event);
+        }
+        this.emit('poll', events);
+
+        return events;
+    }
+
+    /**
+     * Keeps only the sections which are watched, either by CRN or by course ID.
+     * @private
+     */
+    private watched(classes: Class[]): Class[] {
+        const courseIDs = this._options.courseIDs || [];
+        return classes.filter(classEntry => this._crns.has(classEntry.crn) || courseIDs.some(courseID => classEntry.isSectionOf(courseID)));
+    }
+
+    /**
+     * POSTs an event as JSON to the webhook. Failures are emitted as errors rather than stopping the watcher.
+     * @private
+     */
+    private async deliver(event: IWatchEvent): Promise<void> {
+        const webhook = this._options.webhook;
+        const transport = webhook.transport || new FetchTransport();
+
+        try {
+            const response = await transport.request(webhook.url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...webhook.headers },
+                body: JSON.stringify(event)
+            });
+            if (response.status >= 400) throw new Error(`HTTP ${response.status}`);
+        } catch (e) {
+            this.reportError(new NetworkError(`Webhook delivery to ${webhook.url} failed: ${e instanceof Error ? e.message : e}`));
+        }
+    }
+
+    /**
+     * Emits an error only if someone is listening, so that a failed poll doesn't crash the process. Otherwise, the
+     * error is logged even if the scraper's logging is disabled, so that it isn't lost.
+     * @private
+     */
+    private reportError(error: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', error);
+        else this._scraper.logger.error(error.message);
+    }
+}
@@ -0,0 +1,142 @@
+import {ISectionDetails} from "../interfaces/ISectionDetails";
+
+const jsdom = require("jsdom");
+const { JSDOM } = jsdom;
+
+/**
+ * Labels of the detail page, normalized to lowercase without punctuation, for each field.
+ */
+const LABELS: { [field in keyof ISectionDetails | 'restrictions']: string[] } = {
+    description: ['description', 'course description'],
+    prerequisites: ['prerequisite', 'prerequisites', 'prerequisite s', 'prereq', 'prereqs', 'pre requisites'],
+    location: ['location', 'locations', 'meeting location', 'room', 'where'],
+    building: ['building', 'bldg'],
+    levelRestrictions: ['level restriction', 'level restrictions', 'levels', 'restricted levels'],
+    majorRestrictions: ['major restriction', 'major restrictions', 'majors', 'restricted majors'],
+    comments: ['comment', 'comments', 'section comment', 'section comments', 'notes'],
+    restrictions: ['restriction', 'restrictions']
+};
+
+/**
+ * Elements which commonly hold a label followed by its value.
+ */
+const LABEL_ELEMENTS = 'h1, h2, h3, h4, h5, h6, strong, b, label, dt';
+
+/**
+ * Elements which start a new line of text.
+ */
+const BLOCK_ELEMENTS = ['P', 'DIV', 'LI', 'UL', 'OL', 'DD', 'DT', 'TR', 'TABLE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+
+/**
+ * Parses the section detail pages linked from the CRNs of the search results.
+ */
+export class SectionDetails {
+    /**
+     * Parses the HTML of a detail page. Labels are matched case-insensitively in table rows (th and td), definition
+     * lists and headings or bold text followed by their value. Unknown labels are ignored.
+     * @param html
+     */
+    public static parse(html: string): ISectionDetails {
+        const document = new JSDOM(html).window.document;
+        const values = new Map<string, string>();
+        const add = (label: string, value: string) => {
+            const field = SectionDetails.fieldOf(label);
+            const text = SectionDetails.clean(value);
+            if (field && text && !values.has(field)) values.set(field, text);
+        };
+
+        // Table rows with a label cell and a value cell.
+        for (const row of document.querySelectorAll('tr')) {
+            const cells = [...row.children];
+            if (cells.length === 2) add(SectionDetails.text(cells[0]), SectionDetails.text(cells[1]));
+        }
+
+        // Labels followed by their value, e.g. <h3>Prerequisites</h3><p>...</p> or <b>Location:</b> ISC 1221.
+        for (const label of document.querySelectorAll(LABEL_ELEMENTS)) {
+            if (!SectionDetails.fieldOf(label.textContent)) continue;
+
+            let value = '';
+            for (let node = label.nextSibling; node; node = node.nextSibling) {
+                if (node.nodeType === 1 && ((node as Element).matches(LABEL_ELEMENTS) || (node as Element).querySelector(LABEL_ELEMENTS))) break;
+                value += SectionDetails.text(node);
+            }
+            add(SectionDetails.text(label), value);
+        }
+
+        // Generic restrictions list their kind on each line, e.g. "Level: Undergraduate".
+        const restrictions = SectionDetails.lines(values.get('restrictions'));
+        const ofKind = (kind: RegExp) => restrictions
+            .filter(line => kind.test(line))
+            .flatMap(line => SectionDetails.list(line.replace(/^[^:]*:/, '')));
+
+        const location = values.get('location') ?? null;
+        const building = values.get('building') ?? (location ? SectionDetails.buildingOf(location) : null);
+
+        return {
+            description: values.get('description') ?? null,
+            prerequisites: values.get('prerequisites') ?? null,
+            location,
+            building,
+            levelRestrictions: values.has('levelRestrictions') ? SectionDetails.list(values.get('levelRestrictions')) : ofKind(/^\s*levels?\b/i),
+            majorRestrictions: values.has('majorRestrictions') ? SectionDetails.list(values.get('majorRestrictions')) : ofKind(/^\s*majors?\b/i),
+            comments: values.get('comments') ?? null
+        };
+    }
+
+    /**
+     * Returns the text of a node as displayed: whitespace of the HTML is collapsed, and line breaks and blocks
+     * start new lines.
+     * @private
+     */
+    private static text(node: Node): string {
+        if (node.nodeType === 3) return node.textContent.replace(/\s+/g, ' ');
+        if (node.nodeType !== 1) return '';
+        if (node.nodeName === 'BR') return '\n';
+
+        const content = [...node.childNodes].map(child => SectionDetails.text(child)).join('');
+        return BLOCK_ELEMENTS.includes(node.nodeName) ? `\n${content}\n` : content;
+    }
+
+    /**
+     * Returns the field of a label, or null if the label is unknown.
+     * @private
+     */
+    private static fieldOf(label: string): string {
+        const normalized = (label ?? '').toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+        const match = Object.entries(LABELS).find(([, labels]) => labels.includes(normalized));
+        return match ? match[0] : null;
+    }
+
+    /**
+     * Returns the building of a location, e.g. "ISC" for "ISC 1221" or "Integrated Science Center" for
+     * "Integrated Science Center 1221". Returns the location itself if it doesn't end with a room number.
+     * @private
+     */
+    private static buildingOf(location: string): string {
+        const match = /^(.*\S)\s+[A-Z]?\d+[A-Z]?$/i.exec(location);
+        return match ? match[1] : location;
+    }
+
+    /**
+     * Collapses whitespace within lines and removes empty lines.
+     * @private
+     */
+    private static clean(text: string): string {
+        return SectionDetails.lines(text).join('\n');
+    }
+
+    /**
+     * @private
+     */
+    private static lines(text: string): string[] {
+        return (text ?? '').split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    }
+
+    /**
+     * Splits a list separated by commas, semicolons or lines.
+     * @private
+     */
+    private static list(text: string): string[] {
+        return (text ?? '').split(/[,;\n]/).map(item => item.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    }
+}
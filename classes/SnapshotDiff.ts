@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import {Class} from "./Class";
+import {ChangeField, IClassChange} from "../interfaces/IClassChange";
+import {JsonFormat} from "./JsonFormat";
+import {ValidationError} from "./ScraperError";
+
+/**
+ * Thrown when the SnapshotDiff class is given invalid arguments or data.
+ */
+class DiffError extends ValidationError {}
+
+/**
+ * Fields compared between two snapshots, in the order they are reported.
+ */
+const FIELDS: ChangeField[] = ['title', 'instructor', 'times', 'projectedEnrollment', 'currentEnrollment', 'seatsAvailable', 'status'];
+
+/**
+ * The differences between two sets of classes (e.g. two scrapes of the same term), keyed by term and CRN. If a class
+ * of either set has no term, e.g. from a file saved before terms were recorded, both sets are keyed by CRN alone.
+ * @example SnapshotDiff.fromFiles('./morning.json', './evening.json').toString()
+ */
+export class SnapshotDiff {
+    private _changes: IClassChange[];
+
+    constructor(before: Class[], after: Class[]) {
+        this._changes = SnapshotDiff.compare(before, after);
+    }
+
+    /**
+     * Compares two .json files created via the saveToJson() method.
+     * @param beforePath
+     * @param afterPath
+     */
+    public static fromFiles(beforePath: string, afterPath: string): SnapshotDiff {
+        return new SnapshotDiff(SnapshotDiff.readJson(beforePath), SnapshotDiff.readJson(afterPath));
+    }
+
+    /**
+     * Reads the classes of a .json file created via the saveToJson() method.
+     * @param filepath
+     */
+    public static readJson(filepath: string): Class[] {
+        let text: string;
+
+        try {
+            text = fs.readFileSync(filepath, 'utf8');
+        } catch (e) {
+            throw new DiffError(`Error loading JSON file ${filepath}: ${e}`);
+        }
+
+        return JsonFormat.parse(text, filepath).classes;
+    }
+
+    /**
+     * Returns the list of changes. Removed sections come first, then changed and added sections in term and CRN order.
+     */
+    get changes(): IClassChange[] {
+        return this._changes;
+    }
+
+    get added(): IClassChange[] {
+        return this._changes.filter(change => change.type === 'ADDED');
+    }
+
+    get removed(): IClassChange[] {
+        return this._changes.filter(change => change.type === 'REMOVED');
+    }
+
+    get changed(): IClassChange[] {
+        return this._changes.filter(change => change.type === 'CHANGED');
+    }
+
+    /**
+     * Returns true if both snapshots contain the same sections with the same values.
+     */
+    get isEmpty(): boolean {
+        return this._changes.length === 0;
+    }
+
+    /**
+     * Returns the list of changes when serialized with JSON.stringify().
+     */
+    public toJSON(): IClassChange[] {
+        return this._changes;
+    }
+
+    /**
+     * Returns a human-readable summary with one line per section, e.g.
+     * "~ 12345 CSCI 141 01 Computational Problem Solving: seatsAvailable 1 → 0, status OPEN → CLOSED"
+     */
+    public toString(): string {
+        if (this.isEmpty) return 'No changes.';
+
+        const symbols = { ADDED: '+', REMOVED: '-', CHANGED: '~' };
+        const lines = this._changes.map(change => {
+            const line = `${symbols[change.type]} ${change.crn} ${change.courseID} ${change.title}`;
+            if (change.type !== 'CHANGED') return `${line} (${change.type.toLowerCase()})`;
+
+            return `${line}: ${change.changes.map(field => `${field.field} ${SnapshotDiff.format(field.before)} → ${SnapshotDiff.format(field.after)}`).join(', ')}`;
+        });
+
+        return `${this.added.length} added, ${this.removed.length} removed, ${this.changed.length} changed\n${lines.join('\n')}`;
+    }
+
+    /**
+     * Compares two sets of classes keyed by term and CRN, or by CRN alone if any class has no term.
+     * @private
+     */
+    private static compare(before: Class[], after: Class[]): IClassChange[] {
+        const withTerms = [...before, ...after].every(classEntry => classEntry.term);
+        const beforeByKey = SnapshotDiff.byKey(before, 'first', withTerms);
+        const afterByKey = SnapshotDiff.byKey(after, 'second', withTerms);
+        const changes: IClassChange[] = [];
+
+        for (const [key, oldClass] of beforeByKey) {
+            if (!afterByKey.has(key)) changes.push(SnapshotDiff.describe('REMOVED', oldClass));
+        }
+
+        const sorted = [...afterByKey.values()].sort((a, b) => (a.term ?? 0) - (b.term ?? 0) || parseInt(a.crn) - parseInt(b.crn));
+        for (const newClass of sorted) {
+            const oldClass = beforeByKey.get(SnapshotDiff.key(newClass, withTerms));
+
+            if (!oldClass) {
+                changes.push(SnapshotDiff.describe('ADDED', newClass));
+                continue;
+            }
+
+            const fieldChanges = FIELDS
+                .filter(field => !SnapshotDiff.equal(oldClass[field], newClass[field]))
+                .map(field => ({ field, before: oldClass[field], after: newClass[field] }));
+
+            if (fieldChanges.length) changes.push({ ...SnapshotDiff.describe('CHANGED', newClass), changes: fieldChanges });
+        }
+
+        return changes;
+    }
+
+    /**
+     * Indexes classes by term and CRN, or by CRN alone. Throws if a key appears twice since the snapshot would be ambiguous.
+     * @private
+     */
+    private static byKey(classes: Class[], name: string, withTerms: boolean): Map<string, Class> {
+        const map = new Map<string, Class>();
+        for (const classEntry of classes) {
+            const key = SnapshotDiff.key(classEntry, withTerms);
+            if (map.has(key)) throw new DiffError(withTerms
+                ? `CRN ${classEntry.crn} appears more than once in the ${name} snapshot.`
+                : `CRN ${classEntry.crn} appears more than once in the ${name} snapshot. Snapshots without terms can only be compared to a single term.`);
+            map.set(key, classEntry);
+        }
+        return map;
+    }
+
+    /**
+     * @private
+     */
+    private static key(classEntry: Class, withTerms: boolean): string {
+        return withTerms ? `${classEntry.term}/${classEntry.crn}` : classEntry.crn;
+    }
+
+    /**
+     * @private
+     */
+    private static describe(type: 'ADDED' | 'REMOVED' | 'CHANGED', classEntry: Class): IClassChange {
+        return { type, crn: classEntry.crn, term: classEntry.term, courseID: classEntry.courseID, title: classEntry.title, changes: [] };
+    }
+
+    /**
+     * Compares two field values. NaN (e.g. an unparseable number) is equal to itself.
+     * @private
+     */
+    private static equal(a: string | number, b: string | number): boolean {
+        return a === b || (Number.isNaN(a) && Number.isNaN(b));
+    }
+
+    /**
+     * @private
+     */
+    private static format(value: string | number): string {
+        return value === '' ? '(none)' : String(value);
+    }
+}
@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import {Class} from "./Class";
+import {CsvFormat} from "./CsvFormat";
+import {ScraperError, ValidationError} from "./ScraperError";
+import {IStreamWriterOptions, StreamFormat} from "../interfaces/IStream";
+
+/**
+ * Writes classes to a .ndjson or .csv file one at a time, so that scrapes don't have to be kept in memory and the
+ * file can be read while the scrape is still running.
+ * @example
+ * const writer = new StreamWriter('./courses.ndjson');
+ * await writer.writeAll(scraper.scrape({ terms: 'all' }));
+ * await writer.close();
+ */
+export class StreamWriter {
+    private _stream: fs.WriteStream;
+    private _format: StreamFormat;
+    private _count: number = 0;
+    private _error: Error = null;
+
+    constructor(filepath: string, options: IStreamWriterOptions = {}) {
+        this._format = options.format ?? (filepath.endsWith('.csv') ? 'csv' : 'ndjson');
+        if (this._format !== 'ndjson' && this._format !== 'csv') throw new ValidationError(`Unknown stream format ${this._format}. Must be ndjson or csv.`);
+
+        // Appending to a non-empty .csv file must not repeat the header.
+        const hasContent = options.append === true && fs.existsSync(filepath) && fs.statSync(filepath).size > 0;
+
+        this._stream = fs.createWriteStream(filepath, { flags: options.append ? 'a' : 'w', encoding: 'utf8' });
+        this._stream.on('error', error => this._error = error);
+
+        if (this._format === 'csv' && !hasContent) this._stream.write(CsvFormat.stringify([CsvFormat.header()]));
+    }
+
+    /**
+     * Get the format written to the file.
+     */
+    get format(): StreamFormat {
+        return this._format;
+    }
+
+    /**
+     * Get the number of classes written so far.
+     */
+    get count(): number {
+        return this._count;
+    }
+
+    /**
+     * Writes a single class. Waits if the file can't keep up.
+     * @param classEntry
+     */
+    public async write(classEntry: Class): Promise<void> {
+        if (this._error) throw new ScraperError(`Unable to write to file: ${this._error.message}`);
+
+        const line = this._format === 'csv'
+            ? CsvFormat.stringify([CsvFormat.toRow(classEntry)])
+            : JSON.stringify(classEntry) + '\n';
+
+        this._count++;
+        if (this._stream.write(line)) return;
+
+        await new Promise<void>((resolve, reject) => {
+            const onError = (error: Error) => reject(new ScraperError(`Unable to write to file: ${error.message}`));
+            this._stream.once('error', onError);
+            this._stream.once('drain', () => {
+                this._stream.removeListener('error', onError);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Writes every class of an iterable, such as the one returned by the scrape() method. Returns the number written.
+     * @param classes
+     */
+    public async writeAll(classes: AsyncIterable<Class> | Iterable<Class>): Promise<number> {
+        let written = 0;
+        for await (const classEntry of classes) {
+            await this.write(classEntry);
+            written++;
+        }
+        return written;
+    }
+
+    /**
+     * Finishes writing and closes the file.
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (this._error) return reject(new ScraperError(`Unable to write to file: ${this._error.message}`));
+
+            this._stream.once('error', error => reject(new ScraperError(`Unable to write to file: ${error.message}`)));
+            this._stream.end(() => resolve());
+        });
+    }
+}
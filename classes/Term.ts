@@ -0,0 +1,37 @@
+import {ITerm} from "../interfaces/ITerm";
+
+/**
+ * Seasons of the last two digits of a term code. The year of a Fall term code is the following academic year,
+ * e.g. 202410 is Fall 2023 whereas 202420 is Spring 2024.
+ */
+const SEASONS: { [suffix: string]: { season: string, yearOffset: number } } = {
+    '10': { season: 'Fall', yearOffset: -1 },
+    '20': { season: 'Spring', yearOffset: 0 },
+    '30': { season: 'Summer', yearOffset: 0 }
+};
+
+/**
+ * Decodes term codes into a season and year.
+ */
+export class Term {
+    /**
+     * Decodes a term code. The label from the term_code dropdown (e.g. "Fall 2023") is preferred when given.
+     * Otherwise, the season and year are derived from the code itself. Returns null if neither can be understood.
+     * @example Term.decode(202410, 'Fall 2023') // { code: 202410, season: 'Fall', year: 2023, label: 'Fall 2023' }
+     * @param code
+     * @param label
+     */
+    public static decode(code: number | string, label?: string): ITerm {
+        const termCode = parseInt(code.toString());
+        if (isNaN(termCode)) return null;
+
+        const match = label ? /^\s*([A-Za-z]+)\s+(\d{4})/.exec(label) : null;
+        if (match) return { code: termCode, season: match[1], year: parseInt(match[2]), label: label.trim() };
+
+        const known = SEASONS[termCode.toString().slice(4)];
+        if (!known || termCode.toString().length !== 6) return null;
+
+        const year = parseInt(termCode.toString().slice(0, 4)) + known.yearOffset;
+        return { code: termCode, season: known.season, year, label: `${known.season} ${year}` };
+    }
+}
@@ -0,0 +1,79 @@
+import {Class} from "./Class";
+import {CourselistParser, WM_LAYOUT} from "./CourselistParser";
+import {SectionDetails} from "./SectionDetails";
+import {IData} from "../interfaces/IData";
+import {IParseResult} from "../interfaces/IParseWarning";
+import {ISearchFilters} from "../interfaces/ISearchFilters";
+import {ISectionDetails} from "../interfaces/ISectionDetails";
+import {IFilterParam, IPageLayout, ISiteAdapter} from "../interfaces/ISiteAdapter";
+
+/**
+ * The built-in adapter of the W&M Open Course List, used by default. Other Banner-based course lists with a similar
+ * layout can extend it and override what differs, such as the URL, the page layout or the user agent policy.
+ * @example
+ * class SisterAdapter extends WmAdapter {
+ *     public name = 'Sister University';
+ *     public courseInfoUrl = 'https://courses.sister.edu/courselist/courseinfo/';
+ *     public layout = { ...WM_LAYOUT, subjectSelect: 'subj_code' };
+ *
+ *     public validateUserAgent(userAgent: string): string {
+ *         return /@sister\.edu$/.test(userAgent) ? null : 'Must be a Sister University email address.';
+ *     }
+ * }
+ * const scraper = new Scraper('abcdef@sister.edu', 500, undefined, undefined, undefined, new SisterAdapter());
+ */
+export class WmAdapter implements ISiteAdapter {
+    public name = 'W&M';
+    public courseInfoUrl = 'https://courselist.wm.edu/courselist/courseinfo/';
+    public layout: IPageLayout = WM_LAYOUT;
+    public searchFilters: { [filter in keyof ISearchFilters]?: IFilterParam } = {
+        attribute: { param: 'attr', any: '0' },
+        attribute2: { param: 'attr2', any: '0' },
+        level: { param: 'levl', any: '0' },
+        status: { param: 'status', any: '0' },
+        partOfTerm: { param: 'ptrm', any: '0' }
+    };
+
+    /**
+     * Returns the URL of the search results. The term and subject are sent as their dropdowns, followed by every
+     * search filter. Filters which aren't given are sent as unused.
+     * @param term
+     * @param subject - Null searches all subjects at once.
+     * @param params
+     */
+    public searchUrl(term: number, subject: string, params: { [param: string]: string }): string {
+        const filters = { ...Object.fromEntries(Object.values(this.searchFilters).map(filter => [filter.param, filter.any])), ...params };
+        const query = Object.entries(filters).map(([param, value]) => `${param}=${encodeURIComponent(value)}`).join('&');
+
+        return `${new URL('searchresults', this.courseInfoUrl)}?${this.layout.termSelect}=${term}&${this.layout.subjectSelect}=${subject ? subject : '0'}&${query}&search=Search`;
+    }
+
+    /**
+     * Returns the URL of the detail page of a section.
+     * @param term
+     * @param crn
+     */
+    public detailUrl(term: number, crn: string): string {
+        return `${new URL('addInfo', this.courseInfoUrl)}?fterm=${term}&fcrn=${crn}`;
+    }
+
+    public parseCourseInfo(html: string, url: string): IParseResult<IData> {
+        return CourselistParser.parseCourseInfo(html, url, this.layout);
+    }
+
+    public parseSearchResults(html: string, term: number, subject: string, url: string): IParseResult<Class[]> {
+        return CourselistParser.parseSearchResults(html, term, subject, url, this.layout);
+    }
+
+    public parseSectionDetails(html: string): ISectionDetails {
+        return SectionDetails.parse(html);
+    }
+
+    /**
+     * Accepts @wm.edu and @email.wm.edu email addresses, including subdomains.
+     * @param userAgent
+     */
+    public validateUserAgent(userAgent: string): string {
+        return /^[a-zA-Z0-9_.+-]+@(?:(?:[a-zA-Z0-9-]+\.)?[a-zA-Z]+\.)?(wm|email.wm)\.edu$/.test(userAgent) ? null : 'Must be a W&M email address.';
+    }
+}
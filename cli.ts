@@ -0,0 +1,548 @@
+#!/usr/bin/env node
+import {Analytics, ApiServer, EnrollmentHistory, ResponseCache, Scraper, SnapshotDiff} from "./scraper";
+import {Class} from "./classes/Class";
+import {Day} from "./interfaces/IMeeting";
+import {DAYS} from "./classes/Meeting";
+import {GroupField} from "./interfaces/IAnalytics";
+import {IFillRate, ISnapshot} from "./interfaces/IHistory";
+
+/**
+ * Exit codes of the command-line interface.
+ */
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: wm-classes <command> [options]
+
+Commands:
+  terms                          List all terms. The latest term is marked with *.
+  subjects                       List all subject codes.
+  scrape                         Scrape classes and save them to a file (or print them as JSON).
+      --term <code>              Term code, e.g. 202420. Defaults to the latest term.
+                                 Separate several codes with commas, or pass "all" for every term.
+      --subject <code>           Subject code, e.g. CSCI. Defaults to all subjects.
+      --out <file>               .csv, .json or .ndjson file to save to. .ndjson files are written as
+                                 classes arrive, so they can be read before the scrape finishes.
+      --attribute <attribute>    Server-side search filters. Values are option values or labels of the
+      --level <level>            course list's dropdowns, e.g. --attribute C200 --level UG --status OPEN.
+      --status <status>
+      --part-of-term <part>
+      --details                  Also retrieve the detail page of every section (description, prerequisites,
+                                 location, restrictions and comments). One additional request per section.
+      --checkpoint <file>        Record completed subjects to a file. Failed subjects don't stop the others.
+      --resume                   Skip the subjects completed in the checkpoint file and retry the rest.
+  find <file>                    Find classes in a file saved by scrape (.json, .csv or .ndjson).
+      --crn <crn>
+      --course-id <id>           e.g. "CSCI 141" for every section or "CSCI 141 01" for one.
+      --attribute <attribute>
+      --instructor <name>
+      --credits <number>
+      --times <times>            Exact times string, e.g. "MWF:1000-1050".
+      --day <day>                M, T, W, R, F, S or U.
+      --starts-after <HH:MM>
+      --ends-before <HH:MM>
+      --projected-enrollment <number>
+      --current-enrollment <number>
+      --seats-available <number>
+      --status <OPEN|CLOSED>
+      --json                     Print the results as JSON.
+  search <file> <query>          Search the titles, instructors, course IDs and attributes of a file saved by
+                                 scrape, most relevant first. Tolerates typos and partial words.
+      --term <code>              Only search this term.
+      --limit <n>                Defaults to 20.
+      --json                     Print the results as JSON.
+  calendar <file>                Export sections of a file saved by scrape to an iCalendar (.ics) file.
+      --crn <crns>               CRNs separated by commas.
+      --start <YYYY-MM-DD>       First day of classes.
+      --end <YYYY-MM-DD>         Last day of classes.
+      --holidays <dates>         Days without classes separated by commas. Use start..end for ranges,
+                                 e.g. 2024-03-09..2024-03-17,2024-04-01.
+      --out <file>               .ics file to save to. Defaults to printing the calendar.
+  site <file>                    Generate a static HTML catalog of a file saved by scrape, with a page per
+                                 subject and per instructor. Works offline when opened from the filesystem.
+      --out <directory>          Directory to save the site to.
+      --term <code>              Term to include. Defaults to the latest term in the file.
+      --title <title>            Defaults to "W&M Course Catalog".
+  report <file>                  Enrollment statistics of a file saved by scrape.
+      --by <field>               Group by subject, instructor, attribute, credits or term. Defaults to subject.
+      --overfilled <n>           List the n fullest sections (full or oversubscribed) instead.
+      --underfilled <n>          List the n emptiest sections (at most half full) instead.
+      --attribute <attribute>    Only include sections with this attribute, e.g. C200.
+      --format <format>          markdown, csv or json. Defaults to markdown.
+  history <history-file>         Track enrollment over time in a .ndjson history file.
+      --record <file>            Add a file saved by scrape. Only sections which changed are added.
+      --crn <crn>                Print the enrollment of a section over time.
+      --term <code>              Term of --crn, or the only term of --fastest. Defaults to the latest/every term.
+      --fastest <n>              List the n sections which gained the most enrollment in a period.
+      --since <date>             Start of the period, e.g. 2023-11-06T07:00. Defaults to the first snapshot.
+      --hours <n>                Length of the period. Defaults to 24.
+      --format <format>          csv or json. Defaults to csv.
+  serve                          Serve classes as a read-only JSON HTTP API until stopped with Ctrl+C.
+      --file <file>              .json file saved by scrape to serve. Defaults to scraping.
+      --term <code>              Term to scrape when no file is given. Defaults to the latest term.
+      --port <port>              Defaults to 3000.
+      --host <host>              Defaults to 127.0.0.1. Use 0.0.0.0 to serve other machines.
+      --refresh <minutes>        Reload the file or scrape again every n minutes.
+  diff <before> <after>          Compare two .json files saved by scrape.
+      --json                     Print the changes as JSON.
+
+Options:
+  --user-agent <email>           Your W&M email address. Defaults to the WM_USER_AGENT environment variable.
+                                 Required by every command except diff.
+  --rate-limit <ms>              Time between requests. Defaults to 500.
+  --cache <directory>            Save pages to a directory and reuse them while fresh. The terms and subjects
+                                 page stays fresh for 24 hours.
+  --cache-ttl <minutes>          How long other pages stay fresh. Defaults to 10.
+  --force-refresh                Request every page again, updating the cache.
+  --verbose                      Show log messages.
+  --progress                     Show the progress of scrapes.
+  --help                         Show this message.`;
+
+/**
+ * Thrown for incorrect usage of the command-line interface. Results in exit code 2.
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = this.constructor.name;
+        Error.captureStackTrace(this, this.constructor);
+    }
+}
+
+/**
+ * Parsed command-line arguments. Flags without a value are stored as true.
+ */
+interface IArguments {
+    command: string,
+    positional: string[],
+    flags: { [flag: string]: string | boolean }
+}
+
+/**
+ * Flags which never take a value.
+ */
+const BOOLEAN_FLAGS = ['json', 'verbose', 'progress', 'help', 'resume', 'details', 'force-refresh'];
+
+/**
+ * Parses "--flag value", "--flag=value" and positional arguments.
+ * @param argv
+ */
+function parseArguments(argv: string[]): IArguments {
+    const parsed: IArguments = { command: null, positional: [], flags: {} };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+
+        if (arg.startsWith('--')) {
+            const [name, inline] = arg.slice(2).split(/=(.*)/s);
+            if (BOOLEAN_FLAGS.includes(name)) {
+                parsed.flags[name] = true;
+            } else if (inline !== undefined) {
+                parsed.flags[name] = inline;
+            } else {
+                if (i + 1 >= argv.length || argv[i + 1].startsWith('--')) throw new UsageError(`Missing value for --${name}.`);
+                parsed.flags[name] = argv[++i];
+            }
+        } else if (parsed.command === null) {
+            parsed.command = arg;
+        } else {
+            parsed.positional.push(arg);
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Returns a string flag, or undefined if it wasn't given.
+ */
+function stringFlag(args: IArguments, name: string): string {
+    const value = args.flags[name];
+    if (value === true) throw new UsageError(`Missing value for --${name}.`);
+    return value as string;
+}
+
+/**
+ * Returns a numeric flag, or undefined if it wasn't given.
+ */
+function numberFlag(args: IArguments, name: string): number {
+    const value = stringFlag(args, name);
+    if (value === undefined) return undefined;
+    if (value.trim() === '' || isNaN(Number(value))) throw new UsageError(`--${name} must be a number. You passed "${value}".`);
+    return Number(value);
+}
+
+/**
+ * Parses a comma-separated list of term codes.
+ */
+function parseTerms(value: string): number[] {
+    return value.split(',').map(term => {
+        if (!/^\d+$/.test(term.trim())) throw new UsageError(`--term must be term codes separated by commas. You passed "${value}".`);
+        return parseInt(term);
+    });
+}
+
+/**
+ * Creates a scraper with the user agent from --user-agent or the WM_USER_AGENT environment variable.
+ */
+function createScraper(args: IArguments): Scraper {
+    const userAgent = stringFlag(args, 'user-agent') || process.env.WM_USER_AGENT;
+    if (!userAgent) throw new UsageError('A W&M email address is required. Pass --user-agent or set WM_USER_AGENT.');
+
+    const scraper = new Scraper(userAgent, numberFlag(args, 'rate-limit'));
+    scraper.logging = args.flags.verbose === true;
+
+    const cache = stringFlag(args, 'cache');
+    const ttl = numberFlag(args, 'cache-ttl');
+    if (cache) scraper.cache = new ResponseCache(cache, {
+        ttl: { results: ttl === undefined ? undefined : ttl * 60 * 1000 },
+        forceRefresh: args.flags['force-refresh'] === true
+    });
+    else if (ttl !== undefined || args.flags['force-refresh']) throw new UsageError('--cache-ttl and --force-refresh require --cache.');
+
+    if (args.flags.progress)
+        scraper.on('progress', event => console.error(`[${event.completed}/${event.total}] ${event.subject ?? 'All subjects'} done, ${event.sections} sections so far`));
+    return scraper;
+}
+
+/**
+ * Loads a file saved by the scrape command into the scraper.
+ */
+async function loadFile(scraper: Scraper, filepath: string): Promise<void> {
+    if (!filepath) throw new UsageError('A file to search must be given.');
+
+    if (filepath.endsWith('.csv')) await scraper.loadFromCsv(filepath);
+    else if (filepath.endsWith('.ndjson')) await scraper.loadFromNdjson(filepath);
+    else await scraper.loadFromJson(filepath);
+}
+
+/**
+ * Saves the classes of the scraper to a .csv or .json file.
+ */
+async function saveClasses(scraper: Scraper, out: string): Promise<void> {
+    if (out.endsWith('.csv')) await scraper.saveToCsv(out);
+    else scraper.saveToJson(out);
+
+    console.error(`Saved ${scraper.classData.length} classes to ${out}.`);
+}
+
+/**
+ * Prints classes as one line each, or as JSON.
+ */
+function printClasses(classes: Class[], json: boolean): void {
+    if (json) {
+        console.log(JSON.stringify(classes, null, 4));
+        return;
+    }
+
+    for (const classEntry of classes) {
+        console.log([
+            classEntry.crn,
+            classEntry.courseID,
+            classEntry.title,
+            classEntry.instructor,
+            classEntry.times || 'TBA',
+            `${classEntry.seatsAvailable} seats`,
+            classEntry.status
+        ].join('\t'));
+    }
+}
+
+/**
+ * Applies every filter flag given to the find command. Classes must match all of them.
+ */
+function findClasses(scraper: Scraper, args: IArguments): Class[] {
+    const day = stringFlag(args, 'day');
+    if (day !== undefined && !DAYS.includes(day as Day)) throw new UsageError(`--day must be one of ${DAYS.join(', ')}.`);
+
+    const status = stringFlag(args, 'status');
+    if (status !== undefined && status !== 'OPEN' && status !== 'CLOSED') throw new UsageError('--status must be OPEN or CLOSED.');
+
+    const filters: { [flag: string]: (value: string) => Class[] } = {
+        'crn': value => [scraper.findClassByCrn(value)].filter(Boolean),
+        'course-id': value => scraper.findClassesByCourseID(value),
+        'attribute': value => scraper.findClassesByAttribute(value),
+        'instructor': value => scraper.findClassesByInstructor(value),
+        'credits': () => scraper.findClassesByCredits(numberFlag(args, 'credits')),
+        'times': value => scraper.findClassesByTimes(value),
+        'day': value => scraper.findClassesByDay(value as Day),
+        'starts-after': value => scraper.findClassesStartingAfter(value),
+        'ends-before': value => scraper.findClassesEndingBefore(value),
+        'projected-enrollment': () => scraper.findClassesByProjectedEnrollment(numberFlag(args, 'projected-enrollment')),
+        'current-enrollment': () => scraper.findClassesByCurrentEnrollment(numberFlag(args, 'current-enrollment')),
+        'seats-available': () => scraper.findClassesBySeatsAvailable(numberFlag(args, 'seats-available')),
+        'status': value => scraper.findClassesByStatus(value as 'OPEN' | 'CLOSED')
+    };
+
+    let results = scraper.classData;
+    for (const [flag, filter] of Object.entries(filters)) {
+        const value = stringFlag(args, flag);
+        if (value === undefined) continue;
+
+        const matches = new Set(filter(value));
+        results = results.filter(classEntry => matches.has(classEntry));
+    }
+
+    return results;
+}
+
+/**
+ * Summarizes the cache lookups, if --cache was given, and the problems found while parsing pages. Each problem is
+ * logged with --verbose.
+ */
+function printSummary(scraper: Scraper): void {
+    if (scraper.cache) {
+        const stats = scraper.cache.stats;
+        console.error(`Cache: ${stats.hits} hits, ${stats.revalidated} revalidated, ${stats.misses} misses.`);
+    }
+    if (!scraper.warnings.length) return;
+
+    const counts = scraper.warnings.reduce((total, warning) => ({ ...total, [warning.code]: (total[warning.code] ?? 0) + 1 }), {});
+    console.error(`Parse warnings: ${Object.entries(counts).map(([code, count]) => `${code} ${count}`).join(', ')}. Run with --verbose to see them.`);
+}
+
+/**
+ * Runs a command and returns the exit code.
+ * @param argv - Arguments without the node executable and script path.
+ */
+export async function run(argv: string[]): Promise<number> {
+    let args: IArguments;
+
+    try {
+        args = parseArguments(argv);
+
+        if (args.flags.help || args.command === null || args.command === 'help') {
+            console.log(USAGE);
+            return args.command === null && !args.flags.help ? EXIT_USAGE : EXIT_OK;
+        }
+
+        switch (args.command) {
+            case 'terms': {
+                const scraper = createScraper(args);
+                await scraper.getTermsAndSubjects();
+                for (const term of scraper.courselistData.terms.all)
+                    console.log(`${term}${term === scraper.courselistData.terms.latest ? ' *' : ''}`);
+                return EXIT_OK;
+            }
+            case 'subjects': {
+                const scraper = createScraper(args);
+                await scraper.getTermsAndSubjects();
+                scraper.courselistData.subjects.forEach(subject => console.log(subject));
+                return EXIT_OK;
+            }
+            case 'scrape': {
+                const scraper = createScraper(args);
+                const out = stringFlag(args, 'out');
+                const term = stringFlag(args, 'term');
+                const options = {
+                    subject: stringFlag(args, 'subject'),
+                    details: args.flags.details === true,
+                    filters: {
+                        attribute: stringFlag(args, 'attribute'),
+                        level: stringFlag(args, 'level'),
+                        status: stringFlag(args, 'status'),
+                        partOfTerm: stringFlag(args, 'part-of-term')
+                    }
+                };
+
+                const checkpoint = stringFlag(args, 'checkpoint');
+                if (args.flags.resume && !checkpoint) throw new UsageError('--resume requires --checkpoint.');
+
+                // Checkpointed scrapes cover a single term and report every subject.
+                if (checkpoint) {
+                    if (term === 'all' || (term && term.includes(','))) throw new UsageError('--checkpoint only supports a single --term.');
+
+                    const report = await scraper.getCourseDataWithCheckpoint(checkpoint, {
+                        ...options, term: numberFlag(args, 'term'), resume: args.flags.resume === true
+                    });
+                    if (out) await saveClasses(scraper, out);
+
+                    console.error(`Succeeded: ${report.succeeded.length}, empty: ${report.empty.length}, failed: ${report.failed.length}` +
+                        (report.resumed.length ? ` (${report.resumed.length} resumed from ${checkpoint})` : '') + '.');
+                    for (const failure of report.failed) console.error(`  ${failure.subject}: ${failure.error}`);
+                    printSummary(scraper);
+                    if (!out) console.log(JSON.stringify(scraper.classData, null, 4));
+                    return report.failed.length ? EXIT_ERROR : EXIT_OK;
+                }
+
+                // Stream .ndjson files instead of keeping every class in memory.
+                if (out && out.endsWith('.ndjson')) {
+                    const terms = term === 'all' ? 'all' : term && term.includes(',') ? parseTerms(term) : undefined;
+                    const count = await scraper.scrapeToFile(out, { ...options, terms, term: terms ? undefined : numberFlag(args, 'term') });
+                    console.error(`Saved ${count} classes to ${out}.`);
+                    printSummary(scraper);
+                    return EXIT_OK;
+                }
+
+                if (term === 'all') await scraper.getCourseDataForTerms(undefined, options);
+                else if (term && term.includes(',')) await scraper.getCourseDataForTerms(parseTerms(term), options);
+                else await scraper.getCourseData({ ...options, term: numberFlag(args, 'term') });
+
+                if (out) await saveClasses(scraper, out);
+                else console.log(JSON.stringify(scraper.classData, null, 4));
+                printSummary(scraper);
+                return EXIT_OK;
+            }
+            case 'find': {
+                const scraper = createScraper(args);
+                await loadFile(scraper, args.positional[0]);
+                printClasses(findClasses(scraper, args), args.flags.json === true);
+                return EXIT_OK;
+            }
+            case 'search': {
+                const scraper = createScraper(args);
+                await loadFile(scraper, args.positional[0]);
+
+                const query = args.positional.slice(1).join(' ');
+                if (!query.trim()) throw new UsageError('A search query must be given.');
+
+                const results = scraper.search(query, { term: numberFlag(args, 'term'), limit: numberFlag(args, 'limit') ?? 20 });
+                printClasses(results.map(result => result.classEntry), args.flags.json === true);
+                return EXIT_OK;
+            }
+            case 'calendar': {
+                const scraper = createScraper(args);
+                await loadFile(scraper, args.positional[0]);
+
+                const crns = stringFlag(args, 'crn');
+                const start = stringFlag(args, 'start');
+                const end = stringFlag(args, 'end');
+                if (!crns || !start || !end) throw new UsageError('--crn, --start and --end are required.');
+
+                const holidays = (stringFlag(args, 'holidays') ?? '').split(',').filter(Boolean).map(holiday => {
+                    const [from, to] = holiday.split('..');
+                    return to === undefined ? from : { start: from, end: to };
+                });
+
+                const calendar = scraper.createCalendar(crns.split(','), { start, end, holidays });
+                const out = stringFlag(args, 'out');
+                if (out) calendar.save(out);
+                else process.stdout.write(calendar.toString());
+
+                if (calendar.warnings.length) console.error(`Warnings:\n${calendar.warningReport()}`);
+                return EXIT_OK;
+            }
+            case 'site': {
+                const scraper = createScraper(args);
+                await loadFile(scraper, args.positional[0]);
+
+                const out = stringFlag(args, 'out');
+                if (!out) throw new UsageError('--out is required.');
+
+                const site = scraper.createCatalogSite({ term: numberFlag(args, 'term'), title: stringFlag(args, 'title') });
+                const pages = await site.save(out);
+                console.error(`Saved ${pages} pages to ${out}. Open index.html in a browser.`);
+                return EXIT_OK;
+            }
+            case 'report': {
+                const scraper = createScraper(args);
+                await loadFile(scraper, args.positional[0]);
+
+                const format = stringFlag(args, 'format') ?? 'markdown';
+                if (!['markdown', 'csv', 'json'].includes(format)) throw new UsageError('--format must be markdown, csv or json.');
+
+                const by = (stringFlag(args, 'by') ?? 'subject') as GroupField;
+                if (!['subject', 'instructor', 'attribute', 'credits', 'term'].includes(by))
+                    throw new UsageError('--by must be subject, instructor, attribute, credits or term.');
+
+                const attribute = stringFlag(args, 'attribute');
+                const analytics = scraper.analytics(attribute ? scraper.findClassesByAttribute(attribute) : scraper.classData);
+                const overfilled = numberFlag(args, 'overfilled');
+                const underfilled = numberFlag(args, 'underfilled');
+                const rows = overfilled !== undefined ? analytics.overfilled(overfilled)
+                    : underfilled !== undefined ? analytics.underfilled(underfilled)
+                    : analytics.groupBy(by);
+
+                if (format === 'json') console.log(JSON.stringify(rows, null, 4));
+                else process.stdout.write(format === 'csv' ? Analytics.toCsv(rows) : Analytics.toMarkdown(rows));
+                return EXIT_OK;
+            }
+            case 'history': {
+                const file = args.positional[0];
+                if (!file) throw new UsageError('A history file must be given.');
+
+                const format = stringFlag(args, 'format') ?? 'csv';
+                if (!['csv', 'json'].includes(format)) throw new UsageError('--format must be csv or json.');
+                const print = (rows: (ISnapshot | IFillRate)[]) => {
+                    if (format === 'json') console.log(JSON.stringify(rows, null, 4));
+                    else process.stdout.write(EnrollmentHistory.toCsv(rows));
+                };
+
+                const record = stringFlag(args, 'record');
+                const crn = stringFlag(args, 'crn');
+                const fastest = numberFlag(args, 'fastest');
+                if (!record && !crn && fastest === undefined) throw new UsageError('--record, --crn or --fastest is required.');
+
+                if (record) {
+                    const scraper = createScraper(args);
+                    await loadFile(scraper, record);
+                    const count = await scraper.recordHistory(file);
+                    console.error(`Recorded ${count} changed sections from ${record}.`);
+                }
+
+                const history = await EnrollmentHistory.open(file);
+                if (crn) {
+                    print(history.series(crn, numberFlag(args, 'term')));
+                    const closedAt = history.closedAt(crn, numberFlag(args, 'term'));
+                    if (closedAt) console.error(`Closed at ${closedAt.toISOString()}.`);
+                }
+                if (fastest !== undefined) {
+                    const since = stringFlag(args, 'since');
+                    if (since && isNaN(Date.parse(since))) throw new UsageError('--since must be a date, e.g. 2023-11-06T07:00.');
+
+                    print(history.fastestFilling({
+                        term: numberFlag(args, 'term'),
+                        since: since ? new Date(since) : undefined,
+                        hours: numberFlag(args, 'hours') ?? 24,
+                        limit: fastest
+                    }));
+                }
+                return EXIT_OK;
+            }
+            case 'serve': {
+                const scraper = createScraper(args);
+                const refresh = numberFlag(args, 'refresh');
+                const server = new ApiServer(scraper, {
+                    dataFile: stringFlag(args, 'file'),
+                    port: numberFlag(args, 'port') ?? 3000,
+                    host: stringFlag(args, 'host') ?? '127.0.0.1',
+                    refreshInterval: refresh ? refresh * 60000 : undefined,
+                    scrape: { term: numberFlag(args, 'term') }
+                });
+                const port = await server.start();
+                server.on('error', error => console.error(`Refresh failed: ${error.message}`));
+                console.error(`Serving ${scraper.classData.length} classes on http://${stringFlag(args, 'host') ?? '127.0.0.1'}:${port}.`);
+
+                await new Promise<void>(resolve => {
+                    process.once('SIGINT', resolve);
+                    process.once('SIGTERM', resolve);
+                });
+                await server.stop();
+                return EXIT_OK;
+            }
+            case 'diff': {
+                const [before, after] = args.positional;
+                if (!before || !after) throw new UsageError('Two files to compare must be given.');
+
+                const diff = SnapshotDiff.fromFiles(before, after);
+                console.log(args.flags.json ? JSON.stringify(diff, null, 4) : diff.toString());
+                return EXIT_OK;
+            }
+            default:
+                throw new UsageError(`Unknown command ${args.command}.`);
+        }
+    } catch (e) {
+        if (e instanceof UsageError) {
+            console.error(`${e.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+
+        console.error(e instanceof Error ? e.message : e);
+        return EXIT_ERROR;
+    }
+}
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(code => process.exitCode = code);
+}
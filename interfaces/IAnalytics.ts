@@ -0,0 +1,33 @@
+/**
+ * Fields the Analytics class can group sections by. Sections with several attributes count towards each of them.
+ */
+export type GroupField = 'subject' | 'instructor' | 'attribute' | 'credits' | 'term';
+
+/**
+ * Enrollment statistics of a group of sections.
+ */
+export interface IGroupStats {
+    group: string,
+    sections: number,
+    projectedEnrollment: number,
+    currentEnrollment: number,
+    fillRatio: number, // currentEnrollment / projectedEnrollment. Null if nothing is projected.
+    seatsRemaining: number,
+    open: number,
+    closed: number
+}
+
+/**
+ * Enrollment of a single section, as listed by the overfilled() and underfilled() methods.
+ */
+export interface ISectionFill {
+    crn: string,
+    courseID: string,
+    title: string,
+    instructor: string,
+    projectedEnrollment: number,
+    currentEnrollment: number,
+    seatsAvailable: number,
+    fillRatio: number, // Above 1 when oversubscribed.
+    status: string
+}
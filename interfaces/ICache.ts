@@ -0,0 +1,36 @@
+/**
+ * Kinds of pages with their own TTL: the terms and subjects page of the adapter, and every other page.
+ */
+export type CachedPage = 'courseInfo' | 'results';
+
+/**
+ * Options for the ResponseCache class. All times are in milliseconds.
+ */
+export interface ICacheOptions {
+    ttl?: {
+        courseInfo?: number, // Terms, subjects and search filters page. Defaults to 24 hours.
+        results?: number // Every other page, e.g. search results and section details. Defaults to 10 minutes.
+    },
+    forceRefresh?: boolean // Ignore fresh entries and request every page again. Defaults to false.
+}
+
+/**
+ * A cached response, saved as one .json file per URL.
+ */
+export interface ICacheEntry {
+    url: string,
+    status: number,
+    headers: { [header: string]: string },
+    body: string,
+    fetchedAt: string // When the page was last requested or revalidated (ISO 8601)
+}
+
+/**
+ * Counts of the lookups of a ResponseCache since it was created.
+ */
+export interface ICacheStats {
+    hits: number, // Served from disk without a request
+    misses: number, // Requested without a usable entry, or with forceRefresh
+    revalidated: number, // Stale entries the server confirmed with 304 Not Modified
+    stored: number // Responses saved to disk
+}
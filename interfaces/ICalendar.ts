@@ -0,0 +1,28 @@
+/**
+ * A single date or an inclusive range of dates, e.g. a spring break. Strings are in the form YYYY-MM-DD.
+ */
+export type CalendarDate = string | Date;
+export type Holiday = CalendarDate | { start: CalendarDate, end: CalendarDate };
+
+/**
+ * Options for the CalendarExport class.
+ */
+export interface ICalendarOptions {
+    start: CalendarDate, // First day of classes.
+    end: CalendarDate, // Last day of classes.
+    holidays?: Holiday[], // Days without classes.
+    name?: string // Name of the calendar shown by calendar apps. Defaults to "W&M Classes".
+}
+
+/**
+ * A section which couldn't be fully added to the calendar.
+ * TBA: no meeting times yet. UNPARSEABLE: times which couldn't be understood, any other meetings are still added.
+ * NO_MEETINGS: no meeting falls between the start and end dates. NOT_FOUND: the CRN isn't in classData.
+ */
+export interface ICalendarWarning {
+    crn: string,
+    courseID: string,
+    title: string,
+    times: string,
+    reason: 'TBA' | 'UNPARSEABLE' | 'NO_MEETINGS' | 'NOT_FOUND'
+}
@@ -0,0 +1,9 @@
+/**
+ * Options for the CatalogSite class.
+ */
+export interface ICatalogOptions {
+    title?: string, // Defaults to "W&M Course Catalog".
+    source?: string, // Name of the site the data is from, shown in the footer. Defaults to "W&M".
+    term?: number, // Only include this term. Defaults to the latest term of the classes.
+    generatedAt?: Date // Shown on every page as when the data was scraped. Defaults to now.
+}
@@ -0,0 +1,45 @@
+import {IJsonClass} from "./IJsonClass";
+import {ICourseDataOptions} from "./ISearchFilters";
+
+/**
+ * Progress of a single subject in a checkpoint file.
+ */
+export interface ISubjectState {
+    status: 'pending' | 'done' | 'failed',
+    classes: IJsonClass[], // Parsed sections. Empty unless done.
+    error: string, // Reason of the latest failure, or null.
+    attempts: number // Number of runs which tried this subject.
+}
+
+/**
+ * Contents of a checkpoint file written by the getCourseDataWithCheckpoint() method.
+ */
+export interface ICheckpointFile {
+    checkpointVersion: number,
+    term: number,
+    params: { [param: string]: string }, // Search filters of the run, as sent to the Open Course List.
+    startedAt: string, // ISO 8601 timestamp of the first run
+    updatedAt: string,
+    subjects: { [subject: string]: ISubjectState } // In scrape order. "0" searches all subjects at once.
+}
+
+/**
+ * Options for the getCourseDataWithCheckpoint() method.
+ */
+export interface ICheckpointOptions extends ICourseDataOptions {
+    resume?: boolean // Skips the subjects completed by a previous run with the same checkpoint file. Defaults to false.
+}
+
+/**
+ * Summary of a run of the getCourseDataWithCheckpoint() method. Subjects completed by previous runs are included.
+ */
+export interface IRunReport {
+    term: number,
+    succeeded: string[], // Subjects with at least one section.
+    empty: string[], // Subjects which completed without any sections.
+    failed: { subject: string, error: string }[],
+    resumed: string[], // Subjects skipped because a previous run completed them.
+    classes: number, // Number of sections added to classData.
+    startedAt: Date,
+    finishedAt: Date
+}
@@ -0,0 +1,25 @@
+/**
+ * Fields of the Class class which are compared by the SnapshotDiff class.
+ */
+export type ChangeField = 'title' | 'instructor' | 'times' | 'projectedEnrollment' | 'currentEnrollment' | 'seatsAvailable' | 'status';
+
+/**
+ * A single field which changed between two scrapes.
+ */
+export interface IFieldChange {
+    field: ChangeField,
+    before: string | number,
+    after: string | number
+}
+
+/**
+ * A section which was added, removed or changed between two scrapes. Changed sections list each changed field.
+ */
+export interface IClassChange {
+    type: 'ADDED' | 'REMOVED' | 'CHANGED',
+    crn: string,
+    term: number,
+    courseID: string,
+    title: string,
+    changes: IFieldChange[]
+}
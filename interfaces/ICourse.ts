@@ -0,0 +1,31 @@
+/**
+ * Kind of a section, detected from the suffix of its course number or section code,
+ * e.g. "BIOL 203L 01" and "CHEM 103 L01" are labs and "ECON 101 D01" is a discussion.
+ */
+export type SectionType = 'LECTURE' | 'LAB' | 'DISCUSSION';
+
+/**
+ * Totals of a course. Enrollment and seats are summed over the lecture sections, since students of labs and
+ * discussions are also enrolled in a lecture. Courses without lectures sum every section.
+ */
+export interface ICourseTotals {
+    sections: number,
+    openSections: number,
+    projectedEnrollment: number,
+    currentEnrollment: number,
+    seatsAvailable: number
+}
+
+/**
+ * Object returned by the toJSON() method of the Course class.
+ */
+export interface IJsonCourse {
+    id: string,
+    term: number,
+    title: string,
+    totals: ICourseTotals,
+    lectures: string[], // CRNs
+    labs: string[],
+    discussions: string[],
+    crossListings: string[] // IDs of the courses cross-listed with this one
+}
@@ -1,10 +1,20 @@
+import {IFilterOption} from "./ISearchFilters";
+
 /**
  * Object used in the Scraper class to store all the term information and subjects that have been scraped from the Open Course List.
  */
 export interface IData {
     terms?: {
-        latest: number,
-        all: number[]
+        latest: number, // Term code, e.g. 202420
+        all: number[], // Term codes of the term_code dropdown, without placeholders
+        labels?: { [code: string]: string } // Labels of the term_code dropdown, e.g. "Fall 2023".
     },
-    subjects?: string[]
+    subjects?: string[],
+    filters?: {
+        attributes: IFilterOption[],
+        attributes2: IFilterOption[],
+        levels: IFilterOption[],
+        statuses: IFilterOption[],
+        partsOfTerm: IFilterOption[]
+    }
 }
@@ -0,0 +1,40 @@
+/**
+ * Enrollment of a section at a point in time, as recorded by the EnrollmentHistory class.
+ */
+export interface ISnapshot {
+    timestamp: string, // ISO 8601
+    term: number,
+    crn: string,
+    courseID: string,
+    title: string,
+    projectedEnrollment: number,
+    currentEnrollment: number,
+    seatsAvailable: number,
+    status: string
+}
+
+/**
+ * Enrollment gained by a section within a period, as listed by the fastestFilling() method.
+ */
+export interface IFillRate {
+    term: number,
+    crn: string,
+    courseID: string,
+    title: string,
+    from: string, // Start of the period (ISO 8601)
+    to: string, // End of the period (ISO 8601)
+    enrollmentBefore: number,
+    enrollmentAfter: number,
+    gained: number,
+    closedAt: string // When the section closed within the period (ISO 8601), or null.
+}
+
+/**
+ * Options for the fastestFilling() method.
+ */
+export interface IFillRateOptions {
+    term?: number, // Defaults to every term.
+    since?: Date, // Start of registration. Defaults to the first snapshot of each term.
+    hours?: number, // Length of the period. Defaults to 24.
+    limit?: number // Defaults to 10.
+}
@@ -1,3 +1,6 @@
+import {IMeeting} from "./IMeeting";
+import {ISectionDetails} from "./ISectionDetails";
+
 /**
  * Object used in the Class class object to store the information about the class.
  */
@@ -9,8 +12,14 @@ export interface IJsonClass {
     _instructor: string,
     _credits: number,
     _times: string,
+    _timesStatus?: 'PARSED' | 'TBA' | 'UNPARSEABLE',
+    _meetings?: IMeeting[],
     _projectedEnrollment: number,
     _currentEnrollment: number,
     _seatsAvailable: number,
-    _status: boolean
+    _status: 'OPEN' | 'CLOSED' | boolean, // Boolean in some files written before schema version 2.
+    _term?: number,
+    _subject?: string,
+    _detailUrl?: string,
+    _details?: ISectionDetails // Null unless scraped with the details option.
 }
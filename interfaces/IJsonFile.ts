@@ -0,0 +1,12 @@
+import {IJsonClass} from "./IJsonClass";
+
+/**
+ * Envelope written by the saveToJson() method. Files written before schema version 2 are a bare array of classes.
+ */
+export interface IJsonFile {
+    schemaVersion: number,
+    scrapedAt: string, // ISO 8601 timestamp of the scrape. Null if unknown.
+    terms: number[], // Terms of the classes in the file.
+    userAgent: string,
+    classes: IJsonClass[]
+}
@@ -0,0 +1,9 @@
+/**
+ * Receives the log messages of a scraper. Winston, pino and console loggers can be passed as is.
+ */
+export interface ILogger {
+    error(message: string): void,
+    warn(message: string): void,
+    info(message: string): void,
+    debug(message: string): void
+}
@@ -0,0 +1,34 @@
+/**
+ * Day of the week as abbreviated by the Open Course List. R is Thursday and U is Sunday.
+ */
+export type Day = 'M' | 'T' | 'W' | 'R' | 'F' | 'S' | 'U';
+
+/**
+ * Object used in the Meeting class to store a single weekly meeting of a class.
+ * Start and end times are stored as minutes since midnight.
+ */
+export interface IMeeting {
+    days: Day[],
+    start: number,
+    end: number
+}
+
+/**
+ * A window of time used to query meetings. If no days are given, the window applies to every day.
+ * Times can be given as minutes since midnight or as a "HH:MM" / "HHMM" string.
+ */
+export interface ITimeWindow {
+    days?: Day[],
+    start: number | string,
+    end: number | string
+}
+
+/**
+ * Result of parsing the raw times string of a class.
+ * PARSED: every part of the string was understood. TBA: no times have been set.
+ * UNPARSEABLE: some or all of the string could not be understood.
+ */
+export interface IParsedTimes {
+    status: 'PARSED' | 'TBA' | 'UNPARSEABLE',
+    meetings: IMeeting[]
+}
@@ -0,0 +1,27 @@
+/**
+ * Kinds of problems found while parsing a page of the Open Course List.
+ * ROW_SKIPPED: a results row without a class, UNEXPECTED_COLUMN_COUNT: a row with more or fewer cells than the header,
+ * MISSING_TABLE: a results page without a results table, MISSING_ELEMENT: a dropdown of the course list page is missing,
+ * UNPARSEABLE_NUMBER: a number cell which isn't a number (stored as null), UNPARSEABLE_TIMES: times which couldn't be understood.
+ */
+export type ParseWarningCode = 'ROW_SKIPPED' | 'UNEXPECTED_COLUMN_COUNT' | 'MISSING_TABLE' | 'MISSING_ELEMENT' | 'UNPARSEABLE_NUMBER' | 'UNPARSEABLE_TIMES';
+
+/**
+ * A problem found while parsing a page. Parsing continues, so a single odd row doesn't stop a scrape.
+ */
+export interface IParseWarning {
+    code: ParseWarningCode,
+    message: string,
+    url?: string, // Page the problem was found on, if known.
+    row?: number, // Row of the results table, starting at 1.
+    field?: string, // e.g. credits
+    value?: string // Text which couldn't be parsed.
+}
+
+/**
+ * Result of a parser along with every problem found.
+ */
+export interface IParseResult<T> {
+    result: T,
+    warnings: IParseWarning[]
+}
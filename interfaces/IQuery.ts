@@ -0,0 +1,30 @@
+import {Class} from "../classes/Class";
+
+/**
+ * Numeric fields of the Class class which can be compared in a query.
+ */
+export type NumericField = 'credits' | 'projectedEnrollment' | 'currentEnrollment' | 'seatsAvailable' | 'term';
+
+/**
+ * Text fields of the Class class which can be matched in a query.
+ */
+export type TextField = 'crn' | 'courseID' | 'courseKey' | 'sectionType' | 'title' | 'instructor' | 'times' | 'status' | 'subject'
+    | 'description' | 'prerequisites' | 'location' | 'building' | 'comments'; // Null unless scraped with the details option.
+
+/**
+ * Comparison operators for numeric fields.
+ */
+export type Comparison = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * A condition on a single class. Used to combine queries.
+ */
+export type Predicate = (classEntry: Class) => boolean;
+
+/**
+ * Sort order of a field in a query.
+ */
+export interface ISort {
+    field: NumericField | TextField,
+    direction: 'asc' | 'desc'
+}
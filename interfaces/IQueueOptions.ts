@@ -0,0 +1,11 @@
+/**
+ * Options for the RequestQueue class. All times are in milliseconds.
+ */
+export interface IQueueOptions {
+    interval?: number, // Minimum time between the start of two requests. Defaults to 500.
+    concurrency?: number, // Maximum number of requests in progress at once. Defaults to 1.
+    retries?: number, // Retries after the first attempt on network errors, 429 and 5xx responses. Defaults to 3.
+    backoff?: number, // Delay before the first retry, doubled on every retry. Defaults to 1000.
+    maxBackoff?: number, // Upper bound for the delay between retries, including Retry-After. Defaults to 30000.
+    timeout?: number // Time after which a single attempt is abandoned. Defaults to 30000.
+}
@@ -1,6 +1,6 @@
 /**
  * Object to store rate-limit information including the interval.
- * Future plan is to implement a fully-fledged queue.
+ * Used by the RequestQueue class to space out the start of every request.
  */
 export interface IRateLimit {
     _interval: number,
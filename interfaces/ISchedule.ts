@@ -0,0 +1,35 @@
+import {Day} from "./IMeeting";
+import {Class} from "../classes/Class";
+
+/**
+ * Preferences used to rank generated schedules. Applied in the order they are given.
+ * compact: least time between classes on the same day. fewestDays: fewest days on campus.
+ * lateStart: latest first class of the week. earlyEnd: earliest last class of the week.
+ */
+export type SchedulePreference = 'compact' | 'fewestDays' | 'lateStart' | 'earlyEnd';
+
+/**
+ * Options used by the ScheduleGenerator class to constrain and rank schedules.
+ * Times can be given as minutes since midnight or as a "HH:MM" / "HHMM" string.
+ */
+export interface IScheduleOptions {
+    earliestStart?: number | string,
+    latestEnd?: number | string,
+    freeDays?: Day[],
+    openOnly?: boolean,
+    allowUnscheduled?: boolean, // Allow sections with TBA or unparseable times. Defaults to true.
+    rankBy?: SchedulePreference[],
+    limit?: number,
+    maxSchedules?: number // Stop the search after building this many schedules. Defaults to 100,000.
+}
+
+/**
+ * A conflict-free combination of one section per course.
+ */
+export interface ISchedule {
+    sections: Class[],
+    days: Day[],
+    gapMinutes: number,
+    firstStart: number,
+    lastEnd: number
+}
@@ -0,0 +1,46 @@
+/**
+ * Payload of the requestStart event, emitted when an attempt of a request is sent.
+ */
+export interface IRequestStartEvent {
+    url: string,
+    attempt: number, // Starts at 1 and increases with every retry.
+    subject: string, // Set when the request was made while scraping course data.
+    term: number
+}
+
+/**
+ * Payload of the requestEnd event, emitted when an attempt of a request is answered or fails.
+ */
+export interface IRequestEndEvent extends IRequestStartEvent {
+    status: number, // Null if the attempt failed without a response.
+    duration: number, // Milliseconds since the attempt was sent.
+    error: string // Why the attempt failed without a response, or null.
+}
+
+/**
+ * Payload of the rateLimitWait event, emitted when a request waits for the rate limit before it is sent.
+ */
+export interface IRateLimitWaitEvent {
+    url: string,
+    delay: number // Milliseconds until the request is sent.
+}
+
+/**
+ * Payload of the subjectStart and subjectComplete events. The subject is null for searches of all subjects at once.
+ */
+export interface ISubjectEvent {
+    subject: string,
+    term: number,
+    sections?: number // Number of sections found. Only set on subjectComplete.
+}
+
+/**
+ * Payload of the progress event, emitted whenever a subject of a scrape completes.
+ */
+export interface IProgressEvent {
+    term: number,
+    subject: string, // The subject which completed. Null for searches of all subjects at once.
+    completed: number, // Subjects completed so far, including failed ones of checkpointed scrapes.
+    total: number, // Subjects of the term.
+    sections: number // Sections found so far.
+}
@@ -0,0 +1,25 @@
+import {Class} from "../classes/Class";
+
+/**
+ * Fields of a class searched by the SearchIndex class.
+ */
+export type SearchField = 'courseID' | 'title' | 'instructor' | 'attributes';
+
+/**
+ * Options for searches of the SearchIndex class.
+ */
+export interface ISearchOptions {
+    limit?: number, // Maximum number of results. Defaults to 20.
+    term?: number, // Only return sections of this term.
+    fuzzy?: boolean // Tolerate typos. Defaults to true.
+}
+
+/**
+ * A section found by a search, ranked by score. Results matching more words of the query always rank first.
+ */
+export interface ISearchResult {
+    classEntry: Class,
+    score: number,
+    matched: number, // Number of words of the query found in the section.
+    fields: SearchField[] // Fields in which words of the query were found.
+}
@@ -0,0 +1,30 @@
+/**
+ * An option of a dropdown menu on the Open Course List search page.
+ */
+export interface IFilterOption {
+    value: string,
+    label: string
+}
+
+/**
+ * Server-side search filters for the getCourseData() method. Values are validated against the options collected by
+ * getTermsAndSubjects() and can be given as either the option value (e.g. "C200") or its label.
+ */
+export interface ISearchFilters {
+    attribute?: string,
+    attribute2?: string,
+    level?: string,
+    status?: string,
+    partOfTerm?: string
+}
+
+/**
+ * Options object accepted by the getCourseData() method in place of individual arguments.
+ */
+export interface ICourseDataOptions {
+    subject?: string,
+    term?: number,
+    signal?: AbortSignal,
+    filters?: ISearchFilters,
+    details?: boolean // Also retrieve the detail page of every section. One additional request per section.
+}
@@ -0,0 +1,13 @@
+/**
+ * Information from the detail page of a section, linked from its CRN in the search results.
+ * Fields are null (or empty) when the page doesn't list them.
+ */
+export interface ISectionDetails {
+    description: string,
+    prerequisites: string,
+    location: string, // e.g. "ISC 1221"
+    building: string, // e.g. "ISC". Derived from the location when not listed separately.
+    levelRestrictions: string[], // e.g. ["Undergraduate"]
+    majorRestrictions: string[], // e.g. ["Computer Science"]
+    comments: string
+}
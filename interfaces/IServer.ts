@@ -0,0 +1,53 @@
+import {IScrapeOptions} from "./IStream";
+import {Class} from "../classes/Class";
+
+/**
+ * Options for the ApiServer class. Data is loaded from a .json file, scraped, or both (the file first).
+ */
+export interface IServerOptions {
+    port?: number, // Defaults to 3000. Use 0 for a random free port.
+    host?: string, // Defaults to 127.0.0.1, so the server is only reachable from this machine.
+    dataFile?: string, // .json file created via the saveToJson() method, loaded on start and on every refresh.
+    refreshInterval?: number, // Time in milliseconds between refreshes. Refreshes scrape unless a data file is given. Defaults to never.
+    scrape?: IScrapeOptions // Options of the scheduled scrapes, as for scrape(). Defaults to every subject of the latest term.
+}
+
+/**
+ * Response of the /health endpoint.
+ */
+export interface IHealth {
+    status: 'ok' | 'empty', // Empty until data has been loaded or scraped.
+    classes: number,
+    lastUpdated: string, // ISO 8601 timestamp of the latest load or scrape. Null if unknown.
+    refreshing: boolean,
+    lastError: string // Message of the latest failed refresh, or null.
+}
+
+/**
+ * Response of the /terms endpoint.
+ */
+export interface ITermsResponse {
+    latest: number,
+    all: number[]
+}
+
+/**
+ * Response of the /classes endpoint. Total counts the matching classes before limit and offset.
+ */
+export interface IClassesResponse {
+    total: number,
+    offset: number,
+    classes: Class[]
+}
+
+/**
+ * Response of every request which fails, with a 4xx or 5xx status.
+ */
+export interface IErrorResponse {
+    error: string
+}
+
+/**
+ * Body of any response of the ApiServer: /health, /terms, /subjects, /classes, /classes/:crn or an error.
+ */
+export type ApiResponse = IHealth | ITermsResponse | string[] | IClassesResponse | Class | IErrorResponse;
@@ -0,0 +1,44 @@
+import {Class} from "../classes/Class";
+import {IData} from "./IData";
+import {IParseResult} from "./IParseWarning";
+import {ISearchFilters} from "./ISearchFilters";
+import {ISectionDetails} from "./ISectionDetails";
+
+/**
+ * Where the CourselistParser class finds the data of a Banner-based course list. Dropdowns are found by id or name.
+ */
+export interface IPageLayout {
+    termSelect: string, // e.g. term_code
+    subjectSelect: string, // e.g. term_subj
+    filterSelects: { [filter in keyof IData['filters']]: string }, // Dropdown of the options of each search filter
+    columns: string[] // Fields of a results row in order, used when the header can't be understood. Every Class field from crn to status.
+}
+
+/**
+ * Query parameter of a server-side search filter, and its value when the filter isn't used.
+ */
+export interface IFilterParam {
+    param: string,
+    any: string
+}
+
+/**
+ * Everything the Scraper class needs to know about a course list site. The W&M Open Course List is supported by the
+ * built-in WmAdapter class. Implement this interface, or extend WmAdapter for similar Banner-based sites, to scrape
+ * another institution's course list.
+ */
+export interface ISiteAdapter {
+    name: string, // Shown in errors, e.g. "W&M"
+    courseInfoUrl: string, // Page with the term, subject and search filter dropdowns
+    searchFilters: { [filter in keyof ISearchFilters]?: IFilterParam }, // Search filters supported by the site
+    /**
+     * Returns the URL of the search results of a subject, or of every subject if it is null.
+     * @param params - Query parameter of every search filter. May be empty.
+     */
+    searchUrl(term: number, subject: string, params: { [param: string]: string }): string,
+    detailUrl(term: number, crn: string): string, // Used when the link of the search results isn't known
+    parseCourseInfo(html: string, url: string): IParseResult<IData>,
+    parseSearchResults(html: string, term: number, subject: string, url: string): IParseResult<Class[]>,
+    parseSectionDetails(html: string): ISectionDetails,
+    validateUserAgent(userAgent: string): string // Returns why the user agent isn't accepted, or null.
+}
@@ -0,0 +1,21 @@
+import {ICourseDataOptions} from "./ISearchFilters";
+
+/**
+ * Options for the scrape() method of the Scraper class.
+ */
+export interface IScrapeOptions extends ICourseDataOptions {
+    terms?: number[] | 'all' // Scrapes several terms one after another. Overrides term.
+}
+
+/**
+ * Formats written by the StreamWriter class. NDJSON writes one class per line as in a .json file.
+ */
+export type StreamFormat = 'ndjson' | 'csv';
+
+/**
+ * Options for the StreamWriter class.
+ */
+export interface IStreamWriterOptions {
+    format?: StreamFormat, // Defaults to csv for .csv files and ndjson otherwise.
+    append?: boolean // Adds to an existing file instead of replacing it. Defaults to false.
+}
@@ -0,0 +1,9 @@
+/**
+ * A term decoded from its term code, e.g. 202410 is Fall 2023.
+ */
+export interface ITerm {
+    code: number,
+    season: 'Fall' | 'Spring' | 'Summer' | 'Winter' | string,
+    year: number,
+    label: string
+}
@@ -0,0 +1,29 @@
+/**
+ * Options passed to a transport for an individual HTTP request.
+ */
+export interface ITransportOptions {
+    method?: string,
+    headers?: { [header: string]: string },
+    body?: string,
+    signal?: AbortSignal
+}
+
+/**
+ * Response returned by a transport. The body is already read as text.
+ */
+export interface ITransportResponse {
+    url: string,
+    status: number,
+    headers: { [header: string]: string },
+    body: string
+}
+
+/**
+ * Object used by the Scraper class to perform every HTTP request.
+ * Implement this interface to change how pages are retrieved, e.g. to serve them from disk.
+ * Offline transports don't hit W&M's servers, so the rate limit is not enforced for them.
+ */
+export interface ITransport {
+    offline?: boolean,
+    request(url: string, options: ITransportOptions): Promise<ITransportResponse>
+}
@@ -0,0 +1,37 @@
+import {Class} from "../classes/Class";
+import {ITransport} from "./ITransport";
+
+/**
+ * Types of events emitted by the SeatWatcher class.
+ * seatOpened: seats went from none to some. seatFilled: seats went from some to none.
+ * statusChanged: OPEN ↔ CLOSED. sectionRemoved: the section is no longer listed.
+ */
+export type WatchEventType = 'seatOpened' | 'seatFilled' | 'statusChanged' | 'sectionRemoved';
+
+/**
+ * Payload of every event emitted by the SeatWatcher class. After is null for removed sections.
+ */
+export interface IWatchEvent {
+    type: WatchEventType,
+    crn: string,
+    courseID: string,
+    title: string,
+    before: Class,
+    after: Class,
+    timestamp: number // Date.now() millisecond timestamp
+}
+
+/**
+ * Options for the SeatWatcher class.
+ */
+export interface IWatcherOptions {
+    crns?: string[],
+    courseIDs?: string[], // Watches every section, e.g. "CSCI 141" or "CSCI 141 01".
+    term?: number, // Defaults to the latest term.
+    interval?: number, // Time in milliseconds between the end of one poll and the start of the next. Defaults to 60000.
+    webhook?: {
+        url: string,
+        headers?: { [header: string]: string },
+        transport?: ITransport // Defaults to a FetchTransport.
+    }
+}
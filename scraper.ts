@@ -1,19 +1,74 @@
 import * as fs from "fs";
-import {IRateLimit} from "./interfaces/IRateLimit";
 import {IData} from "./interfaces/IData";
-import {IJsonClass} from "./interfaces/IJsonClass";
 import {Class} from "./classes/Class";
+import {Day, ITimeWindow} from "./interfaces/IMeeting";
+import {ISchedule, IScheduleOptions} from "./interfaces/ISchedule";
+import {ScheduleGenerator} from "./classes/ScheduleGenerator";
+import {ITransport, ITransportOptions, ITransportResponse} from "./interfaces/ITransport";
+import {FetchTransport} from "./classes/FetchTransport";
+import {IQueueOptions} from "./interfaces/IQueueOptions";
+import {RequestQueue} from "./classes/RequestQueue";
+import {AbortError, LayoutError, NetworkError, ScraperError, ValidationError} from "./classes/ScraperError";
+import {SnapshotDiff} from "./classes/SnapshotDiff";
+import {ITerm} from "./interfaces/ITerm";
+import {Term} from "./classes/Term";
+import {ICourseDataOptions, IFilterOption, ISearchFilters} from "./interfaces/ISearchFilters";
+import {ClassQuery} from "./classes/ClassQuery";
+import {JsonFormat} from "./classes/JsonFormat";
+import {CsvFormat} from "./classes/CsvFormat";
+import {StreamWriter} from "./classes/StreamWriter";
+import {IScrapeOptions, IStreamWriterOptions} from "./interfaces/IStream";
+import {Checkpoint} from "./classes/Checkpoint";
+import {ICheckpointOptions, IRunReport} from "./interfaces/ICheckpoint";
+import {CalendarExport} from "./classes/CalendarExport";
+import {ICalendarOptions} from "./interfaces/ICalendar";
+import {CatalogSite} from "./classes/CatalogSite";
+import {ICatalogOptions} from "./interfaces/ICatalog";
+import {Course} from "./classes/Course";
+import {Analytics} from "./classes/Analytics";
+import {SearchIndex} from "./classes/SearchIndex";
+import {EnrollmentHistory} from "./classes/EnrollmentHistory";
+import {ResponseCache} from "./classes/ResponseCache";
+import {CachedPage} from "./interfaces/ICache";
+import {WmAdapter} from "./classes/WmAdapter";
+import {ISiteAdapter} from "./interfaces/ISiteAdapter";
+import {ISearchOptions, ISearchResult} from "./interfaces/ISearch";
+import {IParseWarning} from "./interfaces/IParseWarning";
+import {EventEmitter} from "events";
+import {ILogger} from "./interfaces/ILogger";
+import {IProgressEvent, IRateLimitWaitEvent, IRequestEndEvent, IRequestStartEvent, ISubjectEvent} from "./interfaces/IScraperEvents";
+
+export {ScraperError, ScraperErrorCode, NetworkError, RequestError, RateLimitError, LayoutError, AbortError, ValidationError} from "./classes/ScraperError";
+export {CourselistParser, WM_LAYOUT} from "./classes/CourselistParser";
+export {WmAdapter} from "./classes/WmAdapter";
+export {SnapshotDiff} from "./classes/SnapshotDiff";
+export {SeatWatcher} from "./classes/SeatWatcher";
+export {Term} from "./classes/Term";
+export {ClassQuery} from "./classes/ClassQuery";
+export {JsonFormat, SCHEMA_VERSION} from "./classes/JsonFormat";
+export {CsvFormat} from "./classes/CsvFormat";
+export {StreamWriter} from "./classes/StreamWriter";
+export {Checkpoint} from "./classes/Checkpoint";
+export {CalendarExport} from "./classes/CalendarExport";
+export {CatalogSite} from "./classes/CatalogSite";
+export {SectionDetails} from "./classes/SectionDetails";
+export {Course} from "./classes/Course";
+export {Analytics} from "./classes/Analytics";
+export {ApiServer} from "./classes/ApiServer";
+export {SearchIndex} from "./classes/SearchIndex";
+export {EnrollmentHistory} from "./classes/EnrollmentHistory";
+
+export {FetchTransport} from "./classes/FetchTransport";
+export {RecordingTransport} from "./classes/RecordingTransport";
+export {ResponseCache} from "./classes/ResponseCache";
+export {ReplayTransport} from "./classes/ReplayTransport";
 
-const fetch = require('node-fetch');
-const ObjectsToCsv = require('objects-to-csv');
 const winston = require('winston');
-const jsdom = require("jsdom");
-const { JSDOM } = jsdom;
 
 /**
- * Logging configuration. Only logs to console and can be turned off via a scraper object.
+ * Creates the logger of a scraper without a custom one. Only logs to console.
  */
-const logger = require('winston').createLogger({
+const createConsoleLogger = (): ILogger => winston.createLogger({
     transports: [
         new(winston.transports.Console)({
             colorize: true,
@@ -23,20 +78,9 @@ const logger = require('winston').createLogger({
     ],
     format: winston.format.combine(
         winston.format.colorize(),
-        winston.format.printf(info => `${new Date().toLocaleDateString()} ${new Date().toLocaleDateString()} ${info.level}: ${info.message}`)
+        winston.format.printf(info => `${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()} ${info.level}: ${info.message}`)
     )
-})
-
-/**
- * Custom Error Class for Scraper
- */
-class ScraperError extends Error {
-    constructor(message: string) {
-        super(`W&M Scrapper Error: ${message}`);
-        this.name = this.constructor.name;
-        Error.captureStackTrace(this, this.constructor);
-    }
-}
+});
 
 /**
  * Custom error class for the Error class.
@@ -49,41 +93,115 @@ class ClassError extends Error {
     }
 }
 
+/**
+ * Dropdown options of each search filter. Their query parameters are given by the adapter.
+ */
+const SEARCH_FILTERS: { [filter in keyof ISearchFilters]: keyof IData['filters'] } = {
+    attribute: 'attributes',
+    attribute2: 'attributes2',
+    level: 'levels',
+    status: 'statuses',
+    partOfTerm: 'partsOfTerm'
+};
+
+/**
+ * Typed events of the Scraper class. Progress is emitted whenever a subject of a scrape completes, warning for every
+ * problem found while parsing a page.
+ */
+export interface Scraper {
+    on(event: 'requestStart', listener: (event: IRequestStartEvent) => void): this;
+    on(event: 'requestEnd', listener: (event: IRequestEndEvent) => void): this;
+    on(event: 'rateLimitWait', listener: (event: IRateLimitWaitEvent) => void): this;
+    on(event: 'subjectStart' | 'subjectComplete', listener: (event: ISubjectEvent) => void): this;
+    on(event: 'progress', listener: (event: IProgressEvent) => void): this;
+    on(event: 'warning', listener: (warning: IParseWarning) => void): this;
+    once(event: 'requestStart', listener: (event: IRequestStartEvent) => void): this;
+    once(event: 'requestEnd', listener: (event: IRequestEndEvent) => void): this;
+    once(event: 'rateLimitWait', listener: (event: IRateLimitWaitEvent) => void): this;
+    once(event: 'subjectStart' | 'subjectComplete', listener: (event: ISubjectEvent) => void): this;
+    once(event: 'progress', listener: (event: IProgressEvent) => void): this;
+    once(event: 'warning', listener: (warning: IParseWarning) => void): this;
+    emit(event: 'requestStart', payload: IRequestStartEvent): boolean;
+    emit(event: 'requestEnd', payload: IRequestEndEvent): boolean;
+    emit(event: 'rateLimitWait', payload: IRateLimitWaitEvent): boolean;
+    emit(event: 'subjectStart' | 'subjectComplete', payload: ISubjectEvent): boolean;
+    emit(event: 'progress', payload: IProgressEvent): boolean;
+    emit(event: 'warning', warning: IParseWarning): boolean;
+}
+
 /**
  * The main class of the library. This class is used to scrape the W&M Open Course List.
  * It is recommended to only create one instance of this class and use it throughout your application.
  */
-export class Scraper {
+export class Scraper extends EventEmitter {
     private _userAgent: string;
-    private _rateLimit: IRateLimit = {
-        _interval: 500,
-        _lastRequest: 0 // Date.now() millisecond timestamp
-    };
+    private _logging: boolean;
+    private _search: { index: SearchIndex, classData: Class[], length: number, scrapedAt: Date } = null;
     public courselistData: IData = {
         terms: { latest: null, all: null },
         subjects: null
     };
     public classData: Class[] = [];
+    /**
+     * When classData was last scraped, or loaded from a .json file. Null if unknown.
+     */
+    public scrapedAt: Date = null;
+    /**
+     * Problems found while parsing pages, such as skipped rows or numbers which couldn't be parsed, oldest first.
+     * Each is also logged. Clear it as needed.
+     */
+    public warnings: IParseWarning[] = [];
+    /**
+     * Performs every HTTP request. Defaults to node-fetch. Use a RecordingTransport to save pages to disk
+     * or a ReplayTransport to serve them from disk without any network access.
+     */
+    public transport: ITransport;
+    /**
+     * Saves pages to disk and serves them again while they are fresh. Null (the default) disables caching.
+     */
+    public cache: ResponseCache = null;
+    /**
+     * Schedules every HTTP request. Enforces the rate limit, bounds concurrency and retries failed requests.
+     */
+    public queue: RequestQueue;
+    /**
+     * Receives the log messages of this scraper while logging is enabled.
+     */
+    public logger: ILogger;
+    /**
+     * The course list site this scraper reads: its URLs, page layout and user agent policy. Defaults to W&M's.
+     */
+    public readonly adapter: ISiteAdapter;
 
     /**
      * Constructor for the Scraper class. The userAgent is required and must be in the form of a W&M email address.
      * @param userAgent
      * @param rateLimit
+     * @param transport - Defaults to a FetchTransport.
+     * @param queueOptions - Concurrency, retries, backoff and timeout for requests.
+     * @param logger - Receives log messages, and enables logging. Defaults to a console logger which stays quiet
+     * until logging is set to true.
+     * @param adapter - The course list site to scrape. Defaults to a WmAdapter for the W&M Open Course List.
      */
-    constructor(userAgent: string, rateLimit?: number) {
+    constructor(userAgent: string, rateLimit?: number, transport?: ITransport, queueOptions?: IQueueOptions, logger?: ILogger, adapter?: ISiteAdapter) {
+        super();
+        this.adapter = adapter ?? new WmAdapter();
+        this.logger = logger ?? createConsoleLogger();
+        this._logging = logger !== undefined;
         this.userAgent = userAgent;
+        this.transport = transport ? transport : new FetchTransport();
+        this.queue = new RequestQueue(queueOptions);
 
         if (rateLimit) this.rateLimit = rateLimit;
     }
 
     /**
-     * The user agent for the scraper. This is required and must be in the form of a W&M email address.
+     * The user agent for the scraper. This is required and must be accepted by the adapter, i.e. a W&M email address
+     * by default.
      */
     public set userAgent(userAgent: string) {
-        // User agent must be @email.wm.edu or @wm.edu email address.
-        if(!/^[a-zA-Z0-9_.+-]+@(?:(?:[a-zA-Z0-9-]+\.)?[a-zA-Z]+\.)?(wm|email.wm)\.edu$/g.test(userAgent)) {
-            throw new ScraperError('Invalid user agent. Must be a W&M email address.');
-        }
+        const problem = this.adapter.validateUserAgent(userAgent);
+        if (problem) throw new ValidationError(`Invalid user agent. ${problem}`);
 
         this._userAgent = userAgent;
     }
@@ -102,31 +220,54 @@ export class Scraper {
      */
     public set rateLimit(ms: number) {
         if (ms < 500)
-            logger.warn(`Rate limit set to ${ms}ms. You are responsible for setting a reasonable rate limit! Default is 500ms.`);
+            this.log('warn', `Rate limit set to ${ms}ms. You are responsible for setting a reasonable rate limit! Default is 500ms.`);
 
-        this._rateLimit._interval = ms;
+        this.queue.interval = ms;
     }
 
     /**
      * Get the current rate limit.
      */
     public get rateLimit(): number {
-        return this._rateLimit._interval;
+        return this.queue.interval;
     }
 
     /**
-     * Set the logging to true or false to enable or disable the Winston logger.
+     * Set the logging to true or false to enable or disable the logger of this scraper. Other scrapers are not affected.
      */
     public set logging(bool: boolean) {
-        if (typeof bool !== 'boolean') throw new ScraperError(`Logging can be set to true or false (boolean). You passed a ${typeof bool} argument.`);
-        bool ? logger.silent = false : logger.silent = true;
+        if (typeof bool !== 'boolean') throw new ValidationError(`Logging can be set to true or false (boolean). You passed a ${typeof bool} argument.`);
+        this._logging = bool;
     }
 
     /**
-     * Standardize node-fetch HTTP requests and error-handling.
+     * Get whether log messages are passed to the logger.
      */
-    private async httpRequest(url: string, options?: object): Promise<any> {
-        if (options && typeof options != 'object') throw new ScraperError(`Wrong data type. You passed ${typeof options}.`)
+    public get logging(): boolean {
+        return this._logging;
+    }
+
+    /**
+     * Passes a message to the logger if logging is enabled.
+     * @param level
+     * @param message
+     * @private
+     */
+    private log(level: keyof ILogger, message: string): void {
+        if (this._logging) this.logger[level](message);
+    }
+
+    /**
+     * Standardize HTTP requests and error-handling. Every request goes through the queue and the configured transport.
+     * Offline transports don't hit W&M's servers, so the rate limit is not enforced for them. With a cache, fresh
+     * pages are served without a request and don't wait for the rate limit.
+     * @param url
+     * @param options
+     * @param context - Signal to cancel the request, plus the subject and term named in errors.
+     * @private
+     */
+    private async httpRequest(url: string, options?: ITransportOptions, context: { signal?: AbortSignal, subject?: string, term?: number } = {}): Promise<ITransportResponse> {
+        if (options && typeof options != 'object') throw new ValidationError(`Wrong data type. You passed ${typeof options}.`)
 
         if (!options) {
             options = {
@@ -135,250 +276,565 @@ export class Scraper {
             }
         }
 
+        // Serve fresh pages from the cache, and make requests for stale ones conditional.
+        const page: CachedPage = url === this.adapter.courseInfoUrl ? 'courseInfo' : 'results';
+        const cached = this.cache && (options.method ?? 'GET').toUpperCase() === 'GET' ? await this.cache.lookup(url, page) : null;
+        if (cached && cached.fresh) {
+            this.log('debug', `Served ${url} from the cache.`);
+            return ResponseCache.toResponse(cached.fresh);
+        }
+        if (cached) options = { ...options, headers: { ...options.headers, ...cached.headers } };
+
+        let attempt = 0;
+        const request = async (signal: AbortSignal) => {
+            const event = { url, attempt: ++attempt, subject: context.subject ?? null, term: context.term ?? null };
+            const started = Date.now();
+            this.emit('requestStart', event);
+
+            try {
+                const response = await this.transport.request(url, { ...options, signal });
+                this.emit('requestEnd', { ...event, status: response.status, duration: Date.now() - started, error: null });
+                return response;
+            } catch (e) {
+                this.emit('requestEnd', { ...event, status: null, duration: Date.now() - started, error: e instanceof Error ? e.message : String(e) });
+                throw e;
+            }
+        };
+
+        let response: ITransportResponse;
         try {
-            return await fetch(url, options)
+            response = await this.queue.run(request, {
+                url,
+                signal: context.signal,
+                throttle: !this.transport.offline,
+                subject: context.subject,
+                term: context.term,
+                onRetry: (attempt, delay, reason) => this.log('warn', `Request for ${url} failed (${reason}). Retry ${attempt} in ${delay}ms...`),
+                onWait: delay => this.emit('rateLimitWait', { url, delay })
+            });
         }
         catch (e) {
-          throw new ScraperError(e);
+          throw e instanceof ScraperError ? e : new NetworkError(e instanceof Error ? e.message : String(e));
+        }
+
+        if (!cached) return response;
+
+        // A cache which can't be written to shouldn't fail the scrape.
+        try {
+            return await this.cache.store(url, response, cached.stale);
+        } catch (e) {
+            this.log('warn', e.message);
+            return response.status === 304 && cached.stale ? ResponseCache.toResponse(cached.stale) : response;
         }
     }
 
     /**
-     * Enforces the rate limit by seeing if it has exceeded the set interval.
-     * If so, it halts thread execution for the remaining time.
-     * @private
+     * Retrieves the current term and subject list from the W&M website.
+     * Saves data to the courselistData property in the Scraper class.
+     * @param signal - Cancels the request when aborted.
      */
-    private async _logAndExecuteRateLimit(): Promise<void> {
-        // Calculate time since last request
-        const diff = Date.now() - this.rateLimit;
+    public async getTermsAndSubjects(signal?: AbortSignal): Promise<void> {
+        // Retrieve the entire HTML page from the Course List
+        const url = this.adapter.courseInfoUrl;
+        const response = await this.httpRequest(url, undefined, { signal })
+
+        // Terms and subjects are required for every scrape, so their absence means the layout changed.
+        const { result, warnings } = this.adapter.parseCourseInfo(response.body, url);
+        this.reportWarnings(warnings);
+        if (!result.terms.latest || !result.subjects || !result.subjects.length)
+            throw new LayoutError('Unable to find the terms and subjects of the Open Course List.', url, warnings);
+
+        this.courselistData.terms = result.terms;
+        this.courselistData.subjects = result.subjects;
+        this.courselistData.filters = result.filters;
+    }
+
+    /**
+     * Get the course list for a given term and subject. If no term or subject is passed, the latest term and all subjects are retrieved.
+     * When getting all subjects, up to the queue's concurrency subjects are requested at once and the first failure
+     * cancels the remaining ones. Subjects before the one which failed are kept.
+     * An options object can be passed instead, which also accepts server-side search filters. When an attribute filter
+     * is given without a subject, all subjects are searched with a single request.
+     * @example scraper.getCourseData({ filters: { status: 'OPEN', level: 'Undergraduate', attribute: 'C200' } })
+     * @param subjectCode - Defaults to using all. (Additional HTTP request if not saved in the Scraper class)
+     * @param term - Defaults to using latest. (Additional HTTP request if not saved in the Scraper class)
+     * @param signal - Cancels the scrape when aborted. An AbortError is thrown.
+     */
+    public async getCourseData(subjectCode?: string | ICourseDataOptions, term?: number, signal?: AbortSignal): Promise<void> {
+        // Options can be passed as an object instead of individual arguments.
+        const options: ICourseDataOptions = typeof subjectCode === 'object' && subjectCode !== null
+            ? subjectCode
+            : { subject: subjectCode as string, term, signal };
+
+        for await (const classEntry of this.scrapeTerm(options)) this.classData.push(classEntry);
+
+        this.scrapedAt = new Date();
+    }
 
-        // If the rate limit has been exceeded, force thread execution to halt until the rate limit is met.
-        if (diff < this.rateLimit) {
-            const wait = this.rateLimit - diff;
-            console.log(`INFO: Rate limit reached. Waiting ${wait}ms...`);
-            await new Promise(r => setTimeout(r, wait));
+    /**
+     * Get the course list for several terms into one dataset. Every class records the term it came from.
+     * @example scraper.getCourseDataForTerms([202410, 202420], 'CSCI')
+     * @param terms - Defaults to all terms in the term dropdown. (Additional HTTP request if not saved in the Scraper class)
+     * @param subjectCode - Defaults to using all. An options object with search filters can be passed instead, as for getCourseData().
+     * @param signal - Cancels the scrape when aborted. An AbortError is thrown.
+     */
+    public async getCourseDataForTerms(terms?: number[], subjectCode?: string | ICourseDataOptions, signal?: AbortSignal): Promise<void> {
+        const options: ICourseDataOptions = typeof subjectCode === 'object' && subjectCode !== null
+            ? subjectCode
+            : { subject: subjectCode as string, signal };
+
+        for (const term of await this.resolveTerms(terms ?? 'all', options.signal)) {
+            this.log('info', `Getting course data for ${this.describeTerm(term)}...`);
+            await this.getCourseData({ ...options, term });
         }
+    }
 
-        this._rateLimit._lastRequest = Date.now();
+    /**
+     * Scrapes the course list and yields each class as soon as its subject has been parsed, in subject order.
+     * Unlike getCourseData(), classes are not kept in classData, so scrapes of any size run in constant memory.
+     * Stopping the loop early cancels the requests still in progress.
+     * @example for await (const classEntry of scraper.scrape({ terms: 'all' })) console.log(classEntry.title);
+     * @param options - Accepts the options of getCourseData() and several terms.
+     */
+    public async *scrape(options: IScrapeOptions = {}): AsyncGenerator<Class, void, undefined> {
+        if (!options.terms) {
+            yield* this.scrapeTerm(options);
+            return;
+        }
+
+        for (const term of await this.resolveTerms(options.terms, options.signal)) {
+            this.log('info', `Getting course data for ${this.describeTerm(term)}...`);
+            yield* this.scrapeTerm({ ...options, term });
+        }
     }
 
+    /**
+     * Scrapes the course list into a .ndjson or .csv file as classes arrive, without keeping them in memory.
+     * Returns the number of classes written. Classes written before a failure are kept in the file.
+     * @example await scraper.scrapeToFile('./courses.ndjson', { terms: [202410, 202420] })
+     * @param filepath
+     * @param options - Accepts the options of scrape().
+     * @param writerOptions - Format of the file and whether to append to it.
+     */
+    public async scrapeToFile(filepath: string, options: IScrapeOptions = {}, writerOptions: IStreamWriterOptions = {}): Promise<number> {
+        const writer = new StreamWriter(filepath, writerOptions);
+
+        try {
+            await writer.writeAll(this.scrape(options));
+        } finally {
+            await writer.close();
+        }
+
+        return writer.count;
+    }
 
     /**
-     * Retrieves the current term and subject list from the W&M website.
-     * Saves data to the courselistData property in the Scraper class.
+     * Get the course list like getCourseData(), recording every completed subject and its sections to a checkpoint file.
+     * A failed subject doesn't stop the others. With the resume option, subjects completed by a previous run with the
+     * same checkpoint file are skipped and only failed or pending ones are requested again.
+     * The sections of every completed subject are added to classData. Returns a report of the run.
+     * @example
+     * const report = await scraper.getCourseDataWithCheckpoint('./scrape.checkpoint.json', { resume: true });
+     * if (report.failed.length) console.log('Run again to retry', report.failed);
+     * @param checkpointPath
+     * @param options - Accepts the options of getCourseData() and resume.
      */
-    public async getTermsAndSubjects(): Promise<void> {
-        // Enforce rate limit
-        await this._logAndExecuteRateLimit();
+    public async getCourseDataWithCheckpoint(checkpointPath: string, options: ICheckpointOptions = {}): Promise<IRunReport> {
+        const startedAt = new Date();
+        const { term, params, subjects } = await this.prepareTerm(options);
 
-        // Retrieve the entire HTML page from the Course List
-        const url = 'https://courselist.wm.edu/courselist/courseinfo/';
-        const response = await this.httpRequest(url)
+        // Searches of all subjects at once are recorded as subject "0", as sent to the Open Course List.
+        const recorded = subjects.map(subject => subject ?? '0');
 
-        /**
-         * Extract the HTML from the response and parse it using JSDOM
-         */
-        const dom = new JSDOM(await response.text());
+        let checkpoint: Checkpoint;
+        if (options.resume && fs.existsSync(checkpointPath)) {
+            checkpoint = Checkpoint.load(checkpointPath);
+            if (!checkpoint.matches(term, params, recorded))
+                throw new ValidationError(`Checkpoint ${checkpointPath} belongs to a scrape of ${this.describeTerm(checkpoint.term)}, other subjects or other search filters. Delete it or pass another file.`);
+        } else {
+            checkpoint = Checkpoint.create(checkpointPath, term, params, recorded);
+        }
+        checkpoint.save();
 
-        /**
-         * Extract the terms from the dropdown menu in the DOM.
-         */
-        const termChildren = dom.window.document.getElementById('term_code').children // HTMLCollection{}
-        this.courselistData.terms.all = [...termChildren].map(term => term.value); // Convert HTMLCollection{} to array
-        this.courselistData.terms.latest = termChildren[termChildren.length - 2].value; // The latest term in dropdown menu.
+        const resumed = checkpoint.subjects.filter(subject => checkpoint.isDone(subject));
+        if (resumed.length) this.log('info', `Resuming from ${checkpointPath}. Skipping ${resumed.length} completed subjects.`);
 
-        /**
-         * Extract the subjects from the dropdown menu in the DOM.
-         */
-        const subjectsChildren = dom.window.document.getElementById('term_subj').children // HTMLCollection{}
-        this.courselistData.subjects = [...subjectsChildren].map(subject => subject.value).slice(1) // Convert HTMLCollection{} to array and remove first item.
+        const remaining = checkpoint.subjects.filter(subject => !checkpoint.isDone(subject));
+        const progress = { term, completed: resumed.length, total: checkpoint.subjects.length, sections: resumed.length ? checkpoint.classes().length : 0 };
+        await this.forEachWindowed(remaining, async (subject, signal) => {
+            try {
+                const classes = await this.scrapeSubject(subject === '0' ? null : subject, term, signal, params, options.details);
+                checkpoint.complete(subject, classes);
+                progress.sections += classes.length;
+            } catch (e) {
+                // Keep the progress made so far. The checkpoint is saved below.
+                if (e instanceof AbortError) return;
+                this.log('warn', `Subject ${subject} failed: ${e instanceof Error ? e.message : e}`);
+                checkpoint.fail(subject, e instanceof Error ? e.message : String(e));
+            }
+            checkpoint.save();
+
+            progress.completed++;
+            this.emit('progress', { ...progress, subject: subject === '0' ? null : subject });
+        }, options.signal);
+
+        if (options.signal && options.signal.aborted) throw new AbortError();
+
+        this.classData.push(...checkpoint.classes());
+        this.scrapedAt = new Date();
+
+        return checkpoint.report(resumed, startedAt);
     }
 
     /**
-     * Get the course list for a given term and subject. If no term or subject is passed, the latest term and all subjects are retrieved.
-     * @param subjectCode - Defaults to using all. (Additional HTTP request if not saved in the Scraper class)
-     * @param term - Defaults to using latest. (Additional HTTP request if not saved in the Scraper class)
+     * Scrapes a single term, requesting up to the queue's concurrency subjects ahead of the one being yielded.
+     * @param options
+     * @private
+     */
+    private async *scrapeTerm(options: ICourseDataOptions): AsyncGenerator<Class, void, undefined> {
+        const { signal } = options;
+        const { term, params, subjects } = await this.prepareTerm(options);
+
+        // Cancel the remaining subjects if one fails, the caller aborts or the loop is stopped early.
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        if (signal) signal.addEventListener('abort', onAbort, { once: true });
+
+        const pending: Promise<Class[]>[] = [];
+        const progress = { term, completed: 0, total: subjects.length, sections: 0 };
+        let next = 0;
+
+        try {
+            while (next < subjects.length || pending.length) {
+                while (next < subjects.length && pending.length < this.queue.concurrency) {
+                    const subject = subjects[next++];
+                    const request = this.scrapeSubject(subject, term, controller.signal, params, options.details);
+                    request.then(classes => {
+                        progress.completed++;
+                        progress.sections += classes.length;
+                        this.emit('progress', { ...progress, subject });
+                    }, () => {}); // Failures are thrown once the subject's turn comes.
+                    pending.push(request);
+                }
+
+                yield* await pending.shift();
+            }
+        } finally {
+            controller.abort();
+            if (signal) signal.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Runs a task for every item with up to the queue's concurrency tasks in progress, rather than queueing a request
+     * for every item at once. Tasks get a signal which is aborted when the given signal is, or when a task fails. The
+     * first failure stops the remaining items and is thrown.
+     * @param items
+     * @param task
+     * @param signal
+     * @private
+     */
+    private async forEachWindowed<T>(items: T[], task: (item: T, signal: AbortSignal) => Promise<void>, signal?: AbortSignal): Promise<void> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        if (signal) signal.addEventListener('abort', onAbort, { once: true });
+
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length && !controller.signal.aborted) await task(items[next++], controller.signal);
+        };
+
+        try {
+            await Promise.all(Array.from({ length: Math.min(this.queue.concurrency, items.length) }, () => worker().catch(e => {
+                controller.abort();
+                throw e;
+            })));
+        } finally {
+            controller.abort();
+            if (signal) signal.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Resolves the term, search filters and subjects of a scrape, getting terms and subjects first if needed.
+     * A null subject searches all subjects at once.
+     * @param options
+     * @private
      */
-    public async getCourseData(subjectCode?: string, term?: number): Promise<void> {
+    private async prepareTerm(options: ICourseDataOptions): Promise<{ term: number, params: { [param: string]: string }, subjects: string[] }> {
+        const { signal } = options;
+
         // If no custom term and subject has been defined or gotten via getTermAndSubjects(), attempt to retrieve it.
         if (!this.courselistData.terms.latest && !this.courselistData.subjects) {
-            logger.warn('No term or subjects found. Attempting to get data from Open Course List...');
-            await this.getTermsAndSubjects();
+            this.log('warn', 'No term or subjects found. Attempting to get data from Open Course List...');
+            await this.getTermsAndSubjects(signal);
 
             // Check for successful retrieval.
             if (this.courselistData.terms.latest && this.courselistData.subjects) {
-                logger.info(`Subjects found (${this.courselistData.subjects.at(1)}...${this.courselistData.subjects.at(-1)}). Term set to ${this.courselistData.terms.latest}.`);
-            } else throw new ScraperError('Unable to get term from Open Course List.');
+                this.log('info', `Subjects found (${this.courselistData.subjects.at(0)}...${this.courselistData.subjects.at(-1)}). Term set to ${this.courselistData.terms.latest}.`);
+            } else throw new LayoutError('Unable to get term from Open Course List.');
         }
 
-        // If a parameter was provided, retrieve information for that subject only.
-        if (subjectCode) {
-            // See if subject code is in courselistData.
-            if (!this.courselistData.subjects.includes(subjectCode)) throw new ScraperError(`Subject code ${subjectCode} is not found. Have you called getTermAndSubjects()?`);
+        const params = await this.resolveFilters(options.filters, signal);
+        // Term codes loaded from elsewhere may be strings. Checkpoints compare them as numbers.
+        const selected = options.term ? options.term : this.courselistData.terms.latest;
+        const term = selected === null || selected === undefined ? null : Number(selected);
 
-            await this._logAndExecuteRateLimit();
+        // See if subject code is in courselistData.
+        if (options.subject && !this.courselistData.subjects.includes(options.subject))
+            throw new ValidationError(`Subject code ${options.subject} is not found. Have you called getTermAndSubjects()?`);
 
-            /**
-             * Retrieve the entire HTML page from the Course List for the given subject.
-             * Uses a custom term if one was provided.
-             */
-            const url = `https://courselist.wm.edu/courselist/courseinfo/searchresults?term_code=${term ? term : this.courselistData.terms.latest}&term_subj=${subjectCode}&attr=0&attr2=0&levl=0&status=0&ptrm=0&search=Search`
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'User-Agent': this._userAgent
-                }
-            });
+        // Attribute searches don't need to be split by subject.
+        const attribute = [this.adapter.searchFilters.attribute, this.adapter.searchFilters.attribute2]
+            .some(filter => filter && params[filter.param] !== filter.any);
+        const subjects: string[] = options.subject ? [options.subject]
+            : attribute ? [null]
+            : this.courselistData.subjects;
 
-            // Extract data and parse through it using JSDOM
-            const dom = new JSDOM(await response.text());
-            const table = dom.window.document.querySelector('tbody').children;
+        return { term, params, subjects };
+    }
 
-            // Continuing to extract data from the table to reach the desired information.
-            for (const entry of table) {
-                const classData = entry.getElementsByTagName('td');
+    /**
+     * Returns the given terms, or every term in the term dropdown for "all".
+     * @private
+     */
+    private async resolveTerms(terms: number[] | 'all', signal?: AbortSignal): Promise<number[]> {
+        if (terms !== 'all') return terms;
 
-                // Extract class courselistData into an array
-                let classInfo = [];
-                for (let i = 0; i < classData.length; i++) {
-                    classInfo.push(classData[i].textContent)
-                }
+        if (!this.courselistData.terms.all) await this.getTermsAndSubjects(signal);
 
-                // Save the found information
-                this.createAndSaveClass(classInfo);
-            }
-        } else { // If no specific subject was given, get all.
-            for (const subject of this.courselistData.subjects) {
-                await this.getCourseData(subject, term ? term : this.courselistData.terms.latest);
+        return [...this.courselistData.terms.all];
+    }
+
+    /**
+     * Decodes a term code into a season and year, using the labels of the term dropdown when they have been retrieved.
+     * @example scraper.decodeTerm(202410) // { code: 202410, season: 'Fall', year: 2023, label: 'Fall 2023' }
+     * @param term
+     */
+    public decodeTerm(term: number): ITerm {
+        const labels = this.courselistData.terms.labels;
+        return Term.decode(term, labels ? labels[term.toString()] : undefined);
+    }
+
+    /**
+     * Validates search filters against the dropdown options and converts them to query parameters.
+     * Filters can be given as an option value or label (case-insensitive). Unused filters are set to 0 (all).
+     * @param filters
+     * @param signal
+     * @private
+     */
+    private async resolveFilters(filters: ISearchFilters = {}, signal?: AbortSignal): Promise<{ [param: string]: string }> {
+        const params = Object.fromEntries(Object.values(this.adapter.searchFilters).map(filter => [filter.param, filter.any]));
+        const given = Object.entries(filters).filter(([, value]) => value !== undefined && value !== null && value !== '');
+        if (given.length === 0) return params;
+
+        // Options are collected by getTermsAndSubjects().
+        if (!this.courselistData.filters) await this.getTermsAndSubjects(signal);
+
+        for (const [filter, value] of given) {
+            if (!SEARCH_FILTERS[filter]) throw new ValidationError(`Unknown search filter ${filter}. Must be one of ${Object.keys(SEARCH_FILTERS).join(', ')}.`);
+
+            if (!this.adapter.searchFilters[filter]) throw new ValidationError(`The ${filter} filter isn't supported by the ${this.adapter.name} course list.`);
+
+            const { param } = this.adapter.searchFilters[filter];
+            const available: IFilterOption[] = this.courselistData.filters[SEARCH_FILTERS[filter]] ?? [];
+            const wanted = value.toString().trim().toLowerCase();
+            const match = available.find(option => option.value === value)
+                || available.find(option => option.value.toLowerCase() === wanted || option.label.toLowerCase() === wanted);
+
+            if (!match) {
+                const examples = available.slice(0, 10).map(option => option.value).join(', ');
+                throw new ValidationError(`Invalid ${filter} filter ${value}. ${available.length ? `Must be one of the options of the ${param} dropdown, e.g. ${examples}.` : `No options were found for the ${param} dropdown.`}`);
             }
+
+            params[param] = match.value;
+        }
+
+        return params;
+    }
+
+    /**
+     * Returns the label of a term for log messages, e.g. "Fall 2023 (202410)".
+     * @private
+     */
+    private describeTerm(term: number): string {
+        const decoded = this.decodeTerm(term);
+        return decoded ? `${decoded.label} (${term})` : term.toString();
+    }
+
+    /**
+     * Keeps and logs the warnings of a parsed page.
+     * @param warnings
+     * @private
+     */
+    private reportWarnings(warnings: IParseWarning[]): void {
+        for (const warning of warnings) {
+            this.log('warn', warning.message);
+            this.emit('warning', warning);
         }
+        this.warnings.push(...warnings);
     }
 
     /**
-     * Takes care of creating a class object from the provided class data and saving it to the scraper object.
-     * Used internally by the retrieveClassData() method.
-     * @param classInfo
+     * Retrieves the search results page for a subject and creates a class object from every row.
+     * @param subjectCode - Null searches all subjects at once.
+     * @param term
+     * @param signal
+     * @param params - Search filter query parameters from resolveFilters(). Defaults to no filters.
+     * @param details - Also retrieve the detail page of every section.
      * @private
      */
-    private createAndSaveClass(classInfo): void {
-        // Guard clauses
-        if (typeof classInfo !== 'object')
-            throw new ScraperError('Invalid classInfo parameter. Must be an array.');
+    private async scrapeSubject(subjectCode: string, term: number, signal?: AbortSignal, params?: { [param: string]: string }, details: boolean = false): Promise<Class[]> {
+        /**
+         * Retrieve the entire HTML page from the Course List for the given subject.
+         * Uses a custom term and search filters if they were provided.
+         */
+        const url = this.adapter.searchUrl(term, subjectCode, params ?? {});
+        this.emit('subjectStart', { subject: subjectCode, term });
+        const response = await this.httpRequest(url, undefined, { signal, subject: subjectCode ? subjectCode : 'all subjects', term });
+
+        const { result: classes, warnings } = this.adapter.parseSearchResults(response.body, term, subjectCode, url);
+        this.reportWarnings(warnings);
+
+        if (details) await this.getSectionDetails(classes, signal);
+
+        this.emit('subjectComplete', { subject: subjectCode, term, sections: classes.length });
+        return classes;
+    }
+
+    /**
+     * Retrieves the detail page of every given section (defaults to classData) and stores its description,
+     * prerequisites, location, restrictions and comments on the class. Requests go through the queue, so the rate
+     * limit applies. Up to the queue's concurrency pages are requested at once, and the first failure cancels the
+     * remaining ones. Sections which already have details are skipped unless refresh is true.
+     * @example await scraper.getSectionDetails(scraper.findClassesByCourseID('CSCI 141'))
+     * @param classes
+     * @param signal - Cancels the remaining requests when aborted. An AbortError is thrown.
+     * @param refresh - Retrieve details again for sections which already have them.
+     */
+    public async getSectionDetails(classes: Class[] = this.classData, signal?: AbortSignal, refresh: boolean = false): Promise<void> {
+        const missing = classes.filter(classEntry => refresh || !classEntry.details);
 
-        if (classInfo.length !== 11)
-            throw new ScraperError('Invalid classInfo parameter. Must be an array of length 11.');
+        const unknown = missing.find(classEntry => !classEntry.detailUrl && !classEntry.term);
+        if (unknown) throw new ValidationError(`The detail page of CRN ${unknown.crn} is unknown because its term is unknown.`);
 
-        // Create a new class object and stores in the scraper object under the classData key.
-        this.classData.push(new Class(
-            classInfo[0], // CRN
-            classInfo[1], // ID
-            classInfo[2].split(','), //Attributes
-            classInfo[3], // Title
-            classInfo[4], // Instructor
-            Number.isInteger(classInfo[5]) ? parseInt(classInfo[5]) : parseFloat(classInfo[5]), // Credits
-            classInfo[6], // Times
-            classInfo[7], // Projected Enrollment
-            classInfo[8], // Current Enrollment
-            classInfo[9], // Seats Available
-            classInfo[10] // Status
-        ));
+        // The first failure cancels the remaining requests.
+        await this.forEachWindowed(missing, async (classEntry, windowSignal) => {
+            const url = classEntry.detailUrl ?? this.adapter.detailUrl(classEntry.term, classEntry.crn);
+            const response = await this.httpRequest(url, undefined, { signal: windowSignal, subject: `CRN ${classEntry.crn}`, term: classEntry.term });
+            classEntry.details = this.adapter.parseSectionDetails(response.body);
+        }, signal);
     }
 
+    /**
+     * Retrieves the classes of a single subject without saving them to the scraper object.
+     * Used by the SeatWatcher class to re-check subjects.
+     * @param subjectCode
+     * @param term - Defaults to using latest. (Additional HTTP request if not saved in the Scraper class)
+     * @param signal - Cancels the request when aborted.
+     */
+    public async fetchClasses(subjectCode: string, term?: number, signal?: AbortSignal): Promise<Class[]> {
+        if (!term && !this.courselistData.terms.latest) await this.getTermsAndSubjects(signal);
+
+        return this.scrapeSubject(subjectCode, term ? term : this.courselistData.terms.latest, signal);
+    }
 
     /**
-     * Saves all data contained in the scraper objects classData key to a .csv file.
+     * Saves all data contained in the scraper objects classData key to a .csv file (RFC 4180, one row per class).
      * @example scraper.saveClassData('/path/to/file.csv')
      * @param saveLocation
      */
     public async saveToCsv(saveLocation: string) {
         if (saveLocation.endsWith('.csv') === false) saveLocation += '.csv'; // Add .csv extension if not already present.
-
-        const csv = new ObjectsToCsv(this.classData);
-        await csv.toDisk(saveLocation);
+        await fs.promises.writeFile(saveLocation, CsvFormat.serialize(this.classData));
     }
 
     /**
-     * Saves all data contained in the scraper objects classData key to a .json file.
+     * Saves all data contained in the scraper objects classData key to a .json file. The file records the schema
+     * version, when the classes were scraped, the terms they belong to and the user agent.
      * @example scraper.saveClassData('/path/to/file.json')
      * @param saveLocation
      */
     public saveToJson(saveLocation: string) {
         if (saveLocation.endsWith('.json') === false) saveLocation += '.json'; // Add .json extension if not already there.
-        fs.writeFileSync(saveLocation, JSON.stringify(this.classData, null, 4));
+        fs.writeFileSync(saveLocation, JsonFormat.serialize(this.classData, { scrapedAt: this.scrapedAt, userAgent: this.userAgent }));
     }
 
     /**
-     * Loads all classes contained in a .json file into the scraper object. Replaces any existing data.
-     * Only use this method if you are sure that the file has been created via the saveToJson() method. Otherwise, it will likely fail.
+     * Loads all classes contained in a .json file created via the saveToJson() method into the scraper object.
+     * Replaces any existing data. Files from older versions are upgraded. Throws a ValidationError listing every
+     * problem if the file is invalid.
      * @example scraper.loadClassData('/path/to/file.json')
      * @param filepath
      */
     public async loadFromJson(filepath: string) {
-        let data: IJsonClass[];
+        let text: string;
 
         try {
-            data =  JSON.parse(fs.readFileSync(filepath, 'utf8'));
+            text = await fs.promises.readFile(filepath, 'utf8');
         } catch (e) {
-            throw new Error(`Error loading JSON file: ${e}`);
+            throw new ScraperError(`Error loading JSON file: ${e}`);
         }
 
-        // Empty current data if present
-        if (this.classData) this.classData = [];
-
-        // Populate classData with the loaded data
-        for (const entry of data) {
-            this.classData.push(new Class(
-                entry._crn.toString(),
-                entry._courseID,
-                entry._attributes,
-                entry._title,
-                entry._instructor,
-                entry._credits,
-                entry._times,
-                entry._projectedEnrollment,
-                entry._currentEnrollment,
-                entry._seatsAvailable,
-                entry._status ? 'OPEN' : 'CLOSED'
-            ))
-        }
+        const { file, classes } = JsonFormat.parse(text, filepath);
+        this.classData = classes;
+        this.scrapedAt = file.scrapedAt ? new Date(file.scrapedAt) : null;
     }
 
     /**
-     * Loads all classes contained in a .csv file into the scraper object. Replaces any existing data.
-     * Only use this method if you are sure that the file has been created via the saveToCsv() method. Otherwise, it will likely fail.
+     * Compares the classes in a .json file created via the saveToJson() method (before) with the current classData (after).
+     * @example console.log(scraper.diffFromJson('./yesterday.json').toString())
+     * @param filepath
+     */
+    public diffFromJson(filepath: string): SnapshotDiff {
+        return new SnapshotDiff(SnapshotDiff.readJson(filepath), this.classData);
+    }
+
+    /**
+     * Loads all classes contained in a .csv file created via the saveToCsv() method into the scraper object.
+     * Replaces any existing data. Throws a ValidationError listing every problem if the file is invalid.
      * @example scraper.loadFromCsv('/path/to/file.csv')
      * @param filepath
      */
     public async loadFromCsv(filepath: string): Promise<void> {
-        const lines = fs.readFileSync(filepath).toString().split('\n').splice(1);
-
-        // Empty current data if present
-        if (this.classData) this.classData = [];
-
-        lines.forEach(line => {
-           const seperated = line
-               .replaceAll('"",""', '-')
-               .replaceAll('"', '')
-               .replaceAll(',  ', ' ')
-               .replaceAll(', ', ' ')
-               .replace('[','')
-               .replace(']', '')
-               .split(',')
-
-            this.classData.push(new Class(
-                seperated[0], // CRN
-                seperated[1], // Course ID
-                seperated[2] ? seperated[2].split('-') : [], // Attributes
-                seperated[3], // Title
-                seperated[4], // Instructor
-                parseInt(seperated[5]), // Credits
-                seperated[6], // Time
-                parseInt(seperated[7]), // Projected enrollment
-                parseInt(seperated[8]), // Current Enrollment
-                parseInt(seperated[9]), // Seats Available
-                seperated[10]
-            ))
-        })
+        let text: string;
+
+        try {
+            text = await fs.promises.readFile(filepath, 'utf8');
+        } catch (e) {
+            throw new ScraperError(`Error loading CSV file: ${e}`);
+        }
+
+        this.classData = CsvFormat.parseClasses(text, filepath);
+        this.scrapedAt = null;
+    }
+
+    /**
+     * Loads all classes contained in a .ndjson file written by the scrapeToFile() method or a StreamWriter into the
+     * scraper object. Replaces any existing data. Files of scrapes which are still running or were interrupted can be loaded.
+     * @example scraper.loadFromNdjson('/path/to/file.ndjson')
+     * @param filepath
+     */
+    public async loadFromNdjson(filepath: string): Promise<void> {
+        let text: string;
+
+        try {
+            text = await fs.promises.readFile(filepath, 'utf8');
+        } catch (e) {
+            throw new ScraperError(`Error loading NDJSON file: ${e}`);
+        }
+
+        this.classData = JsonFormat.parseLines(text, filepath);
+        this.scrapedAt = null;
+    }
+
+    /**
+     * Starts a query over classData. Conditions can be combined with and(), or() and not(), and results can be
+     * sorted, limited and paginated.
+     * @example scraper.query().where('seatsAvailable', '>', 0).contains('title', 'intro').sortBy('seatsAvailable', 'desc').run()
+     */
+    public query(): ClassQuery {
+        return new ClassQuery(this.classData);
     }
 
     /**
@@ -386,7 +842,7 @@ export class Scraper {
      * @example scraper.getClassData()
      */
     public findClassByCrn(crn: string): Class {
-        for (const classEntry of this.classData) if (classEntry.crn === crn) return classEntry;
+        return this.query().equals('crn', crn).first();
     }
 
     /**
@@ -394,7 +850,16 @@ export class Scraper {
      * @example scraper.getClassData()
      */
     public findClassByCourseID(courseID: string): Class {
-        for (const classEntry of this.classData) if (classEntry.courseID === courseID) return classEntry;
+        return this.query().equals('courseID', courseID).first();
+    }
+
+    /**
+     * Returns all sections of a course, e.g. "CSCI 141" returns "CSCI 141 01", "CSCI 141 02", etc.
+     * @example scraper.findClassesByCourseID('CSCI 141')
+     * @param courseID
+     */
+    public findClassesByCourseID(courseID: string): Class[] {
+        return this.query().ofCourse(courseID).run();
     }
 
     /**
@@ -402,11 +867,7 @@ export class Scraper {
      * @param attribute
      */
     public findClassesByAttribute(attribute: string): Class[] {
-        let foundClasses: Class[] = [];
-        for (const classEntry of this.classData) {
-            if (classEntry.attributes.includes(attribute)) foundClasses.push(classEntry);
-        }
-        return foundClasses;
+        return this.query().hasAnyAttribute([attribute]).run();
     }
 
     /**
@@ -415,7 +876,7 @@ export class Scraper {
      */
     public findClassesByInstructor(instructor: string): Class[] {
         // Return an array of classes that match the instructor
-        return this.classData.filter(classEntry => classEntry.instructor === instructor);
+        return this.query().equals('instructor', instructor).run();
     }
 
     /**
@@ -424,7 +885,7 @@ export class Scraper {
      */
     public findClassesByCredits(credits: number): Class[] {
         // Return an array of classes that match the credits
-        return this.classData.filter(classEntry => classEntry.credits === credits);
+        return this.query().filter(classEntry => classEntry.credits === credits).run();
     }
 
     /**
@@ -433,7 +894,193 @@ export class Scraper {
      */
     public findClassesByTimes(times: string): Class[] {
         // Return an array of classes that match the times
-        return this.classData.filter(classEntry => classEntry.times === times);
+        return this.query().equals('times', times).run();
+    }
+
+    /**
+     * Returns an array of class objects which meet on the given day.
+     * @example scraper.findClassesByDay('R') // Thursday
+     * @param day
+     */
+    public findClassesByDay(day: Day): Class[] {
+        return this.classData.filter(classEntry => classEntry.meetsOn(day));
+    }
+
+    /**
+     * Returns an array of class objects whose meetings all start at or after the given time.
+     * @example scraper.findClassesStartingAfter('14:00', 'T') // Meets Tuesdays after 2pm
+     * @param time - Minutes since midnight or a "HH:MM" string.
+     * @param day - Only consider meetings on this day.
+     */
+    public findClassesStartingAfter(time: number | string, day?: Day): Class[] {
+        return this.classData.filter(classEntry => classEntry.startsAfter(time, day));
+    }
+
+    /**
+     * Returns an array of class objects whose meetings all end at or before the given time.
+     * @example scraper.findClassesEndingBefore('12:00')
+     * @param time - Minutes since midnight or a "HH:MM" string.
+     * @param day - Only consider meetings on this day.
+     */
+    public findClassesEndingBefore(time: number | string, day?: Day): Class[] {
+        return this.classData.filter(classEntry => classEntry.endsBefore(time, day));
+    }
+
+    /**
+     * Returns an array of class objects with any meeting overlapping the given time window.
+     * @example scraper.findClassesOverlapping({ days: ['M', 'W'], start: '10:00', end: '11:00' })
+     * @param window
+     */
+    public findClassesOverlapping(window: ITimeWindow): Class[] {
+        return this.classData.filter(classEntry => classEntry.overlaps(window));
+    }
+
+    /**
+     * Returns an array of class objects whose times could not be parsed into meetings.
+     * @param includeTba - Also include classes whose times are TBA. Defaults to true.
+     */
+    public findClassesWithUnparsedTimes(includeTba: boolean = true): Class[] {
+        return this.classData.filter(classEntry =>
+            classEntry.timesStatus === 'UNPARSEABLE' || (includeTba && classEntry.timesStatus === 'TBA'));
+    }
+
+    /**
+     * Generates every combination of one section per course without overlapping times, ranked by preference.
+     * @example scraper.generateSchedules(['CSCI 141', 'MATH 112'], { earliestStart: '10:00', freeDays: ['F'], openOnly: true })
+     * @param courseIDs
+     * @param options
+     */
+    public generateSchedules(courseIDs: string[], options?: IScheduleOptions): ISchedule[] {
+        return new ScheduleGenerator(this.classData).generate(courseIDs, options);
+    }
+
+    /**
+     * Searches the course IDs, titles, instructors and attributes of classData, most relevant first. Tolerates partial
+     * words and typos, unlike the findClassesBy*() methods. The search index is rebuilt whenever classData has been
+     * scraped, loaded or changed in length since the last search.
+     * @example scraper.search('intro computer science').map(result => result.classEntry.courseID)
+     * @example scraper.search('smtih', { term: 202420, limit: 5 })
+     * @param query
+     * @param options - Limit (defaults to 20), term and whether to tolerate typos.
+     */
+    public search(query: string, options: ISearchOptions = {}): ISearchResult[] {
+        const indexed = this._search;
+        if (!indexed || indexed.classData !== this.classData || indexed.length !== this.classData.length || indexed.scrapedAt !== this.scrapedAt) {
+            this._search = {
+                index: new SearchIndex(this.classData),
+                classData: this.classData,
+                length: this.classData.length,
+                scrapedAt: this.scrapedAt
+            };
+        }
+
+        return this._search.index.search(query, options);
+    }
+
+    /**
+     * Appends the enrollment of classData (or the given classes) to a history file and returns the number of sections
+     * which changed since they were last recorded. Use EnrollmentHistory.open() to query the history.
+     * @example await scraper.getCourseData(); await scraper.recordHistory('./history.ndjson');
+     * @param filepath
+     * @param classes - Defaults to classData.
+     */
+    public async recordHistory(filepath: string, classes: Class[] = this.classData): Promise<number> {
+        const history = await EnrollmentHistory.open(filepath);
+        return history.record(classes, this.scrapedAt ?? new Date());
+    }
+
+    /**
+     * Returns enrollment statistics over classData, or over the given classes (e.g. the results of a query).
+     * @example Analytics.toMarkdown(scraper.analytics().groupBy('subject'))
+     * @example scraper.analytics(scraper.findClassesByAttribute('C200')).overfilled(5)
+     * @param classes - Defaults to classData.
+     */
+    public analytics(classes: Class[] = this.classData): Analytics {
+        return new Analytics(classes);
+    }
+
+    /**
+     * Groups classData into courses by term and course ID. Labs and discussions are grouped with their lectures, and
+     * courses cross-listed in other subjects are linked.
+     * @example scraper.getCourses().filter(course => course.labs.length > 0)
+     */
+    public getCourses(): Course[] {
+        return Course.fromClasses(this.classData);
+    }
+
+    /**
+     * Returns a course with all of its sections, e.g. "BIOL 203" with its lectures and labs, or undefined if not found.
+     * @example scraper.findCourse('CSCI 141').totals.seatsAvailable
+     * @param courseID - e.g. "CSCI 141". A section's course ID such as "CSCI 141 01" also works.
+     * @param term - Defaults to the latest term the course is found in.
+     */
+    public findCourse(courseID: string, term?: number): Course {
+        const key = Class.courseKeyOf(courseID);
+        const sections = this.query()
+            .equals('courseKey', key)
+            .filter(classEntry => term === undefined || classEntry.term === term)
+            .sortBy('term', 'desc')
+            .run();
+
+        if (!sections.length) return undefined;
+
+        // Cross-listings are found among every course of the term.
+        const latest = sections[0].term;
+        return Course.fromClasses(this.classData.filter(classEntry => classEntry.term === latest))
+            .find(course => course.id === key);
+    }
+
+    /**
+     * Returns the sections of other subjects which are cross-listed with the section of the given CRN.
+     * @example scraper.findCrossListedSections('12345') // The HIST section of an AMST section.
+     * @param crn
+     */
+    public findCrossListedSections(crn: string): Class[] {
+        const section = this.findClassByCrn(crn);
+        if (!section) return [];
+
+        const course = Course.fromClasses(this.classData.filter(classEntry => classEntry.term === section.term))
+            .find(candidate => candidate.sections.includes(section));
+        return course.crossListedSections(section);
+    }
+
+    /**
+     * Creates an iCalendar export of the sections with the given CRNs. Every meeting becomes a weekly recurring event
+     * between the start and end dates, skipping holidays. CRNs which aren't found and sections with TBA or unparseable
+     * times are listed in the warnings of the export. If a CRN is found in several terms, the latest one is used.
+     * @example
+     * const calendar = scraper.createCalendar(['12345', '12346'], { start: '2024-01-24', end: '2024-05-03', holidays: ['2024-04-01'] });
+     * calendar.save('./spring.ics');
+     * @param crns
+     * @param options - Term start and end dates and holidays.
+     */
+    public createCalendar(crns: string[], options: ICalendarOptions): CalendarExport {
+        const missing: string[] = [];
+        const classes = crns.flatMap(crn => {
+            const [latest] = this.query().equals('crn', crn.toString().trim()).sortBy('term', 'desc').run();
+            if (!latest) missing.push(crn);
+            return latest ? [latest] : [];
+        });
+
+        const calendar = new CalendarExport(classes, options);
+        for (const crn of missing) calendar.warn({ crn }, 'NOT_FOUND');
+        return calendar;
+    }
+
+    /**
+     * Creates a static HTML site of classData for browsing a term without running code, with a page per subject and
+     * per instructor. The site has no external assets, so it works when opened from the filesystem.
+     * @example await scraper.createCatalogSite({ term: 202420 }).save('./catalog');
+     * @param options - Title and term of the site. Defaults to the latest term in classData. The title and the footer
+     * name the site of the adapter.
+     */
+    public createCatalogSite(options: ICatalogOptions = {}): CatalogSite {
+        return new CatalogSite(this.classData, {
+            generatedAt: this.scrapedAt ?? undefined,
+            ...options,
+            title: options.title ?? `${this.adapter.name} Course Catalog`,
+            source: options.source ?? this.adapter.name
+        });
     }
 
     /**
@@ -442,7 +1089,7 @@ export class Scraper {
      */
     public findClassesByProjectedEnrollment(projectedEnrollment: number): Class[] {
         // Return an array of classes that match the projected enrollment
-        return this.classData.filter(classEntry => classEntry.projectedEnrollment === projectedEnrollment);
+        return this.query().filter(classEntry => classEntry.projectedEnrollment === projectedEnrollment).run();
     }
 
     /**
@@ -451,7 +1098,7 @@ export class Scraper {
      */
     public findClassesByCurrentEnrollment(currentEnrollment: number): Class[] {
         // Return an array of classes that match the current enrollment
-        return this.classData.filter(classEntry => classEntry.currentEnrollment === currentEnrollment);
+        return this.query().filter(classEntry => classEntry.currentEnrollment === currentEnrollment).run();
     }
 
     /**
@@ -460,7 +1107,7 @@ export class Scraper {
      */
     public findClassesBySeatsAvailable(seatsAvailable: number): Class[] {
         // Return an array of classes that match the seats available
-        return this.classData.filter(classEntry => classEntry.seatsAvailable === seatsAvailable);
+        return this.query().filter(classEntry => classEntry.seatsAvailable === seatsAvailable).run();
     }
 
     /**
@@ -469,7 +1116,7 @@ export class Scraper {
      */
     public findClassesByStatus(status: 'OPEN' | 'CLOSED'): Class[] {
         // Return an array of classes that match the status
-        return this.classData.filter(classEntry => classEntry.status === status);
+        return this.query().equals('status', status).run();
     }
 }
 
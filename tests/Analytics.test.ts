@@ -0,0 +1,47 @@
+import * as assert from "assert";
+import {Analytics} from "../classes/Analytics";
+import {Class} from "../classes/Class";
+
+const { test } = require('node:test');
+
+const section = (crn: string, courseID: string, attributes: string[], projected: number, current: number, status: string) =>
+    new Class(crn, courseID, attributes, 'Title', 'Smith, John', 3, 'MWF:0900-0950', projected, current, projected - current, status, 202420, courseID.split(' ')[0]);
+
+const classes = [
+    section('20001', 'CSCI 141 01', ['C200', 'NQR'], 30, 36, 'CLOSED'),
+    section('20002', 'CSCI 241 01', [], 40, 10, 'OPEN'),
+    section('30001', 'MATH 111 01', ['NQR'], 20, 20, 'CLOSED'),
+    section('30002', 'MATH 112 01', ['NQR'], 0, 0, 'OPEN')
+];
+
+test('groupBy sums enrollment per group and counts sections towards each of their attributes', () => {
+    const analytics = new Analytics(classes);
+
+    assert.deepStrictEqual(analytics.groupBy('subject'), [
+        { group: 'CSCI', sections: 2, projectedEnrollment: 70, currentEnrollment: 46, fillRatio: 46 / 70, seatsRemaining: 24, open: 1, closed: 1 },
+        { group: 'MATH', sections: 2, projectedEnrollment: 20, currentEnrollment: 20, fillRatio: 1, seatsRemaining: 0, open: 1, closed: 1 }
+    ]);
+    assert.deepStrictEqual(analytics.groupBy('attribute').map(stats => [stats.group, stats.sections]), [['(none)', 1], ['C200', 1], ['NQR', 3]]);
+    assert.strictEqual(analytics.totals().sections, 4);
+    assert.throws(() => analytics.groupBy('room' as any), /Unknown field room/);
+});
+
+test('overfilled and underfilled rank sections by fill ratio and leave out sections without projected enrollment', () => {
+    const analytics = new Analytics(classes);
+
+    assert.deepStrictEqual(analytics.overfilled().map(fill => [fill.crn, fill.fillRatio]), [['20001', 1.2], ['30001', 1]]);
+    assert.deepStrictEqual(analytics.overfilled(1).map(fill => fill.crn), ['20001']);
+    assert.deepStrictEqual(analytics.underfilled().map(fill => [fill.crn, fill.fillRatio]), [['20002', 0.25]]);
+});
+
+test('results convert to CSV and Markdown tables', () => {
+    const rows = new Analytics(classes).groupBy('subject');
+
+    assert.strictEqual(Analytics.toCsv(rows).split('\r\n')[1], 'CSCI,2,70,46,0.6571,24,1,1');
+    assert.deepStrictEqual(Analytics.toMarkdown(rows).split('\n').slice(0, 3), [
+        '| group | sections | projectedEnrollment | currentEnrollment | fillRatio | seatsRemaining | open | closed |',
+        '| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+        '| CSCI | 2 | 70 | 46 | 65.7% | 24 | 1 | 1 |'
+    ]);
+    assert.strictEqual(Analytics.toCsv([]), '');
+});
@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import * as path from "path";
+import {ApiServer, ReplayTransport, Scraper} from "../scraper";
+
+const { test } = require('node:test');
+
+/**
+ * Serves the CSCI fixture on a random local port for the duration of a test.
+ */
+async function withServer(run: (base: string) => Promise<void>): Promise<void> {
+    const scraper = new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 });
+    await scraper.getCourseData({ subject: 'CSCI', term: 202420 });
+
+    const server = new ApiServer(scraper, { port: 0 });
+    const port = await server.start();
+    try {
+        await run(`http://127.0.0.1:${port}`);
+    } finally {
+        await server.stop();
+    }
+}
+
+test('responses with a matching ETag are 304 without a body', () => withServer(async base => {
+    const first = await fetch(`${base}/classes?status=OPEN`);
+    const etag = first.headers.get('etag');
+    assert.strictEqual(first.status, 200);
+    assert.deepStrictEqual((await first.json()).classes.map(classEntry => classEntry._crn), [20001]);
+    assert.ok(etag);
+
+    const second = await fetch(`${base}/classes?status=OPEN`, { headers: { 'If-None-Match': etag } });
+    assert.strictEqual(second.status, 304);
+    assert.strictEqual(await second.text(), '');
+
+    const other = await fetch(`${base}/classes?status=CLOSED`, { headers: { 'If-None-Match': etag } });
+    assert.strictEqual(other.status, 200);
+}));
+
+test('/classes/:crn returns a single class', () => withServer(async base => {
+    const response = await fetch(`${base}/classes/20002?term=202420`);
+    const body = await response.json();
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(body._crn, 20002);
+    assert.strictEqual(body._status, 'CLOSED');
+}));
+
+test('unknown CRNs and endpoints are 404 with an error message', () => withServer(async base => {
+    const crn = await fetch(`${base}/classes/99999`);
+    assert.strictEqual(crn.status, 404);
+    assert.deepStrictEqual(await crn.json(), { error: 'CRN 99999 is not found.' });
+
+    const endpoint = await fetch(`${base}/sections`);
+    assert.strictEqual(endpoint.status, 404);
+    assert.match((await endpoint.json()).error, /^Unknown endpoint \/sections\./);
+}));
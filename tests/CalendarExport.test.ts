@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import * as path from "path";
+import {ReplayTransport, Scraper} from "../scraper";
+
+const { test } = require('node:test');
+
+const scraper = async () => {
+    const scraper = new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 });
+    await scraper.getCourseData({ subject: 'CSCI', term: 202420 });
+    return scraper;
+};
+
+test('meetings recur weekly until the end date and skip holidays on their days', async () => {
+    // CSCI 241 01 meets TR 1100-1220. The holiday covers a Thursday and a Friday.
+    const calendar = (await scraper()).createCalendar(['20002'], { start: '2024-01-22', end: '2024-02-02', holidays: [{ start: '2024-01-25', end: '2024-01-26' }] });
+    const lines = calendar.toString().split('\r\n');
+
+    assert.deepStrictEqual(calendar.warnings, []);
+    assert.strictEqual(lines.filter(line => line === 'BEGIN:VEVENT').length, 1);
+    assert.ok(lines.includes('UID:202420-20002-0@wm-classes'));
+    assert.ok(lines.includes('DTSTART;TZID=America/New_York:20240123T110000'));
+    assert.ok(lines.includes('DTEND;TZID=America/New_York:20240123T122000'));
+    assert.ok(lines.includes('RRULE:FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20240203T035959Z'));
+    assert.deepStrictEqual(lines.filter(line => line.startsWith('EXDATE')), ['EXDATE;TZID=America/New_York:20240125T110000']);
+});
+
+test('lines longer than 75 octets are folded without splitting characters', async () => {
+    const name = `Frühjahr ${'é'.repeat(60)}; Kurse`;
+    const calendar = (await scraper()).createCalendar(['20002', '99999'], { start: '2024-01-22', end: '2024-02-02', name });
+    const text = calendar.toString();
+
+    for (const line of text.split('\r\n')) assert.ok(Buffer.byteLength(line) <= 75, line);
+    assert.ok(text.replace(/\r\n /g, '').split('\r\n').includes(`X-WR-CALNAME:Frühjahr ${'é'.repeat(60)}\\; Kurse`));
+    assert.deepStrictEqual(calendar.warnings.map(warning => [warning.crn, warning.reason]), [['99999', 'NOT_FOUND']]);
+});
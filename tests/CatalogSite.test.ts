@@ -0,0 +1,28 @@
+import * as assert from "assert";
+import * as path from "path";
+import {Class} from "../classes/Class";
+import {CatalogSite, ReplayTransport, Scraper, WmAdapter} from "../scraper";
+
+const { test } = require('node:test');
+
+const section = (crn: string, instructor: string) => new Class(crn, 'CSCI 141 01', [], 'Computational Problem Solving', instructor, 4, 'MWF:0900-0950', 30, 25, 5, 'OPEN', 202420, 'CSCI');
+
+test('an instructor named Index does not overwrite the index of instructors', () => {
+    const pages = new CatalogSite([section('20001', 'Index'), section('20002', 'Smith, John')]).pages();
+
+    assert.match(pages['instructors/index.html'], /<h1>Instructors<\/h1>/);
+    assert.match(pages['instructors/index.html'], /<a href="index-2.html">Index<\/a>/);
+    assert.match(pages['instructors/index-2.html'], /<h1>Index<\/h1>/);
+});
+
+test('the title and footer name the site of the adapter', async () => {
+    class SisterAdapter extends WmAdapter {
+        public name = 'Sister University';
+    }
+    const scraper = new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 }, undefined, new SisterAdapter());
+    await scraper.getCourseData({ subject: 'CSCI', term: 202420 });
+
+    const index = scraper.createCatalogSite().pages()['index.html'];
+    assert.match(index, /<title>Subjects - Sister University Course Catalog<\/title>/);
+    assert.match(index, /<footer>Data from the Sister University course list, scraped /);
+});
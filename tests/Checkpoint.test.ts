@@ -0,0 +1,48 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {ReplayTransport, Scraper} from "../scraper";
+
+const { test } = require('node:test');
+
+const MATH = 'courselist_courseinfo_searchresults_term_code=202420_term_subj=MATH_attr=0_attr2=0_levl=0_status=0_ptrm=0_search=Search.html';
+
+/**
+ * Copies the fixtures to a temporary directory without the MATH results, so that the MATH subject fails.
+ */
+function fixturesWithoutMath(): string {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wm-checkpoint-'));
+    for (const file of fs.readdirSync(path.join(__dirname, 'fixtures')))
+        if (file !== MATH) fs.copyFileSync(path.join(__dirname, 'fixtures', file), path.join(directory, file));
+    return directory;
+}
+
+const createScraper = (directory: string) => new Scraper('abcdef@wm.edu', 0, new ReplayTransport(directory), { retries: 0, concurrency: 2 });
+
+test('a checkpointed scrape without a term can be resumed', async () => {
+    const directory = fixturesWithoutMath();
+    const checkpointPath = path.join(directory, 'scrape.checkpoint.json');
+
+    const first = await createScraper(directory).getCourseDataWithCheckpoint(checkpointPath);
+    assert.deepStrictEqual(first.succeeded, ['CSCI']);
+    assert.deepStrictEqual(first.failed.map(failure => failure.subject), ['MATH']);
+    assert.strictEqual(JSON.parse(fs.readFileSync(checkpointPath, 'utf8')).term, 202420);
+
+    fs.copyFileSync(path.join(__dirname, 'fixtures', MATH), path.join(directory, MATH));
+    const scraper = createScraper(directory);
+    const second = await scraper.getCourseDataWithCheckpoint(checkpointPath, { resume: true });
+
+    assert.deepStrictEqual(second.resumed, ['CSCI']);
+    assert.deepStrictEqual(second.succeeded, ['CSCI', 'MATH']);
+    assert.deepStrictEqual(second.failed, []);
+    assert.deepStrictEqual(scraper.classData.map(classEntry => classEntry.crn).sort(), ['20001', '20002', '30001']);
+});
+
+test('a single-subject checkpoint is not resumed as a scrape of every subject', async () => {
+    const directory = fixturesWithoutMath();
+    const checkpointPath = path.join(directory, 'scrape.checkpoint.json');
+
+    await createScraper(directory).getCourseDataWithCheckpoint(checkpointPath, { subject: 'CSCI' });
+    await assert.rejects(createScraper(directory).getCourseDataWithCheckpoint(checkpointPath, { resume: true }), { code: 'VALIDATION_FAILED' });
+});
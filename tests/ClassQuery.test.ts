@@ -0,0 +1,21 @@
+import * as assert from "assert";
+import {Class} from "../classes/Class";
+import {ClassQuery} from "../classes/ClassQuery";
+
+const { test } = require('node:test');
+
+const section = (crn: string, seatsAvailable: number) => new Class(crn, 'CSCI 141 01', [], 'Computational Problem Solving', 'Smith, John', 4, 'MWF:0900-0950', 30, 25, seatsAvailable, 'OPEN', 202420, 'CSCI');
+const classes = [section('20001', 0), section('20002', 3), section('20003', 10), section('20004', null)];
+const crns = (query: ClassQuery) => query.run().map(classEntry => classEntry.crn);
+
+test('where() compares numeric fields', () => {
+    assert.deepStrictEqual(crns(new ClassQuery(classes).where('seatsAvailable', '>', 0)), ['20002', '20003']);
+    assert.deepStrictEqual(crns(new ClassQuery(classes).where('seatsAvailable', '=', 3)), ['20002']);
+});
+
+test('where() and between() never match unknown values', () => {
+    assert.deepStrictEqual(crns(new ClassQuery(classes).where('seatsAvailable', '<', 5)), ['20001', '20002']);
+    assert.deepStrictEqual(crns(new ClassQuery(classes).where('seatsAvailable', '<=', 0)), ['20001']);
+    assert.deepStrictEqual(crns(new ClassQuery(classes).where('seatsAvailable', '!=', 3)), ['20001', '20003']);
+    assert.deepStrictEqual(crns(new ClassQuery(classes).between('seatsAvailable', 0, 5)), ['20001', '20002']);
+});
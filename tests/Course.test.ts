@@ -0,0 +1,38 @@
+import * as assert from "assert";
+import {Class} from "../classes/Class";
+import {Course} from "../classes/Course";
+
+const { test } = require('node:test');
+
+const section = (crn: string, courseID: string, times: string, seats: number, status: string, instructor = 'Smith, John', title = 'Principles of Biology') =>
+    new Class(crn, courseID, [], title, instructor, 4, times, 24, 24 - seats, seats, status, 202420, courseID.split(' ')[0]);
+
+test('lectures, labs and discussions are grouped into one course with totals over the lectures', () => {
+    const classes = [
+        section('30001', 'BIOL 203 01', 'MWF:0900-0950', 0, 'CLOSED'),
+        section('30002', 'BIOL 203L 01', 'T:1400-1650', 6, 'OPEN'),
+        section('30003', 'BIOL 203 02', 'MWF:1000-1050', 5, 'OPEN'),
+        section('30004', 'BIOL 203 D01', 'R:1400-1450', 2, 'OPEN'),
+        section('30005', 'BIOL 204 01', 'TR:0930-1050', 3, 'OPEN')
+    ];
+
+    const [biol203, biol204] = Course.fromClasses(classes);
+    assert.strictEqual(biol203.id, 'BIOL 203');
+    assert.deepStrictEqual(biol203.lectures.map(classEntry => classEntry.crn), ['30001', '30003']);
+    assert.deepStrictEqual(biol203.labs.map(classEntry => classEntry.crn), ['30002']);
+    assert.deepStrictEqual(biol203.discussions.map(classEntry => classEntry.crn), ['30004']);
+    assert.deepStrictEqual(biol203.totals, { sections: 4, openSections: 3, projectedEnrollment: 48, currentEnrollment: 43, seatsAvailable: 5 });
+    assert.strictEqual(biol204.totals.sections, 1);
+});
+
+test('sections of other subjects with the same title, times and instructor are cross-listed', () => {
+    const amst = section('40001', 'AMST 201 01', 'TR:1100-1220', 4, 'OPEN', 'Doe, Jane', 'American Histories');
+    const hist = section('40002', 'HIST 201 01', 'TR:1100-1220', 1, 'OPEN', 'Doe, Jane', 'American  Histories');
+    const tba = section('40003', 'ENGL 201 01', 'TBA', 1, 'OPEN', 'Doe, Jane', 'American Histories');
+
+    const [amst201, hist201, engl201] = Course.fromClasses([amst, hist, tba]);
+    assert.deepStrictEqual(amst201.crossListings.map(course => course.id), ['HIST 201']);
+    assert.deepStrictEqual(hist201.crossListedSections(hist), [amst]);
+    assert.deepStrictEqual(engl201.crossListings, []);
+    assert.deepStrictEqual(amst201.toJSON().crossListings, ['HIST 201']);
+});
@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {CourselistParser} from "../classes/CourselistParser";
+
+const { test } = require('node:test');
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+test('parseCourseInfo returns numeric term codes without placeholders', () => {
+    const { result, warnings } = CourselistParser.parseCourseInfo(fixture('courselist_courseinfo.html'));
+
+    assert.deepStrictEqual(warnings, []);
+    assert.strictEqual(result.terms.latest, 202420);
+    assert.deepStrictEqual(result.terms.all, [202410, 202420, 202430]);
+    assert.strictEqual(result.terms.labels['202410'], 'Fall 2023');
+    assert.deepStrictEqual(result.subjects, ['CSCI', 'MATH']);
+});
+
+test('parseCourseInfo falls back to the second-to-last term without a preselected one', () => {
+    const html = fixture('courselist_courseinfo.html').replace(' selected', '');
+    assert.strictEqual(CourselistParser.parseCourseInfo(html).result.terms.latest, 202420);
+});
+
+test('parseSearchResults maps every row to a class', () => {
+    const url = 'https://courselist.wm.edu/courselist/courseinfo/searchresults';
+    const html = fixture('courselist_courseinfo_searchresults_term_code=202420_term_subj=CSCI_attr=0_attr2=0_levl=0_status=0_ptrm=0_search=Search.html');
+    const { result, warnings } = CourselistParser.parseSearchResults(html, 202420, 'CSCI', url);
+
+    assert.deepStrictEqual(warnings, []);
+    assert.deepStrictEqual(result.map(classEntry => classEntry.crn), ['20001', '20002']);
+    assert.strictEqual(result[1].seatsAvailable, 0);
+    assert.deepStrictEqual(result[1].attributes, []); // Its attributes cell is empty.
+    assert.strictEqual(result[1].status, 'CLOSED');
+    assert.strictEqual(result[0].detailUrl, 'https://courselist.wm.edu/courselist/courseinfo/addInfo?fterm=202420&fcrn=20001');
+});
@@ -0,0 +1,20 @@
+import * as assert from "assert";
+import {Class} from "../classes/Class";
+import {CsvFormat} from "../scraper";
+
+const { test } = require('node:test');
+
+const section = (crn: string, attributes: string[], title: string, instructor: string) =>
+    new Class(crn, 'CSCI 141 01', attributes, title, instructor, 4, 'MWF:0900-0950', 30, 25, 5, 'OPEN', 202420, 'CSCI');
+
+test('classes are saved and loaded without losing anything', () => {
+    const classes = [
+        section('20001', ['C200', 'NQR'], 'Problem Solving, "Intro"', 'Smith, John'),
+        section('20002', [], 'Line\r\nBreak', 'Doe, Jane'),
+        section('20003', ['ALV'], 'Title', '')
+    ];
+    const loaded = CsvFormat.parseClasses(CsvFormat.serialize(classes));
+
+    assert.deepStrictEqual(loaded.map(classEntry => classEntry.toJSON()), classes.map(classEntry => classEntry.toJSON()));
+    assert.deepStrictEqual(loaded[1].attributes, []);
+});
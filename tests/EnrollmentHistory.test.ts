@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {EnrollmentHistory, ReplayTransport, Scraper} from "../scraper";
+
+const { test } = require('node:test');
+
+const scraper = async () => {
+    const scraper = new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 });
+    await scraper.getCourseData({ term: 202420 });
+    return scraper;
+};
+const temporary = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'wm-history-')), 'history.ndjson');
+
+const morning = new Date('2023-11-06T12:00:00Z');
+const noon = new Date('2023-11-06T17:00:00Z');
+
+test('only sections which changed since their previous snapshot are recorded', async () => {
+    const file = temporary();
+    const classes = (await scraper()).classData;
+
+    const history = await EnrollmentHistory.open(file);
+    assert.strictEqual(await history.record(classes, morning), 3);
+    assert.strictEqual(await history.record(classes, noon), 0);
+
+    // CSCI 141 01 fills up.
+    const [csci141] = classes;
+    csci141.currentEnrollment = 40;
+    csci141.seatsAvailable = 0;
+    csci141.status = 'CLOSED';
+    assert.strictEqual(await history.record(classes, noon), 1);
+
+    const reopened = await EnrollmentHistory.open(file);
+    assert.strictEqual(reopened.size, 4);
+    assert.deepStrictEqual(reopened.series('20001').map(snapshot => [snapshot.timestamp, snapshot.currentEnrollment, snapshot.status]),
+        [[morning.toISOString(), 38, 'OPEN'], [noon.toISOString(), 40, 'CLOSED']]);
+    assert.strictEqual(reopened.at('20001', 202420, new Date('2023-11-06T15:00:00Z')).status, 'OPEN');
+    assert.deepStrictEqual(reopened.closedAt('20001'), noon);
+    assert.strictEqual(reopened.closedAt('20002'), null); // Already closed in its first snapshot.
+
+    const [fastest] = reopened.fastestFilling({ term: 202420, hours: 24 });
+    assert.deepStrictEqual([fastest.crn, fastest.gained, fastest.closedAt], ['20001', 2, noon.toISOString()]);
+});
+
+test('an incomplete last line is ignored and replaced by the next record', async () => {
+    const file = temporary();
+    const classes = (await scraper()).classData;
+    await (await EnrollmentHistory.open(file)).record(classes, morning);
+    fs.appendFileSync(file, '{"timestamp":"2023-11-06T');
+
+    const history = await EnrollmentHistory.open(file);
+    assert.strictEqual(history.size, 3);
+
+    classes[0].currentEnrollment = 39;
+    assert.strictEqual(await history.record(classes, noon), 1);
+    assert.strictEqual((await EnrollmentHistory.open(file)).size, 4);
+    assert.ok(fs.readFileSync(file, 'utf8').split('\n').every(line => line === '' || JSON.parse(line)));
+});
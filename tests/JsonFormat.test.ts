@@ -0,0 +1,39 @@
+import * as assert from "assert";
+import {Class} from "../classes/Class";
+import {JsonFormat, ValidationError} from "../scraper";
+
+const { test } = require('node:test');
+
+const section = (crn: string) => new Class(crn, 'CSCI 141 01', ['C200'], 'Computational Problem Solving', 'Smith, John', 4, 'MWF:0900-0950', 30, 25, 5, 'OPEN', 202420, 'CSCI');
+
+test('saved classes are loaded again', () => {
+    const { file, classes } = JsonFormat.parse(JsonFormat.serialize([section('20001')]));
+
+    assert.strictEqual(file.schemaVersion, 2);
+    assert.deepStrictEqual(classes.map(classEntry => classEntry.toJSON()), [section('20001').toJSON()]);
+});
+
+test('classes without a valid CRN are rejected when saved', () => {
+    assert.throws(() => JsonFormat.serialize([section('20001'), section('TBA')]), (e: ValidationError) =>
+        e instanceof ValidationError && e.problems.length === 1 && /class 1 .*CRN "NaN"/.test(e.problems[0]));
+});
+
+test('invalid files list every problem', () => {
+    assert.throws(() => JsonFormat.parse('"classes"'), ValidationError);
+    assert.throws(() => JsonFormat.parse(JSON.stringify([{ ...section('20001').toJSON(), _crn: null, _credits: 'four' }, 7])), (e: ValidationError) =>
+        e.problems.length === 3 && e.problems[2] === 'class 1 is not an object');
+});
+
+test('saved meetings are loaded with their times status', () => {
+    // Meetings saved by a version which understood times the current parser doesn't.
+    const saved = { ...section('20001').toJSON(), _times: 'MWF 9-9:50', _timesStatus: 'PARSED' as const };
+    const [loaded] = JsonFormat.fromEntries([saved]);
+    assert.strictEqual(loaded.timesStatus, 'PARSED');
+    assert.deepStrictEqual(loaded.meetings.map(meeting => meeting.toJSON()), saved._meetings);
+
+    // Older files without a status derive it from the meetings.
+    const [derived] = JsonFormat.fromEntries([{ ...saved, _timesStatus: undefined }]);
+    assert.strictEqual(derived.timesStatus, 'PARSED');
+    const [empty] = JsonFormat.fromEntries([{ ...saved, _timesStatus: undefined, _meetings: [] }]);
+    assert.strictEqual(empty.timesStatus, 'UNPARSEABLE');
+});
@@ -0,0 +1,16 @@
+import * as assert from "assert";
+import {Meeting} from "../classes/Meeting";
+
+const { test } = require('node:test');
+
+test('toMinutes converts numbers and "HH:MM" or "HHMM" strings', () => {
+    assert.strictEqual(Meeting.toMinutes(570), 570);
+    assert.strictEqual(Meeting.toMinutes(' 09:30 '), 570);
+    assert.strictEqual(Meeting.toMinutes('1350'), 830);
+    assert.strictEqual(Meeting.toMinutes('24:00'), 1440);
+});
+
+test('toMinutes returns null for invalid or missing times', () => {
+    for (const time of ['24:01', '9:60', 'noon', '', -1, 1441, NaN, undefined, null])
+        assert.strictEqual(Meeting.toMinutes(time), null, `${time}`);
+});
@@ -0,0 +1,110 @@
+import * as assert from "assert";
+import * as path from "path";
+import {RequestQueue} from "../classes/RequestQueue";
+import {AbortError, RateLimitError, ReplayTransport, RequestError, Scraper} from "../scraper";
+import {ITransport, ITransportResponse} from "../interfaces/ITransport";
+
+const { test } = require('node:test');
+
+const PAGE = 'https://courselist.wm.edu/courselist/courseinfo/';
+
+/**
+ * Returns a task answering with the given statuses in turn, and the number of attempts made so far.
+ */
+function respond(...responses: (number | ITransportResponse)[]) {
+    const state = { attempts: 0 };
+    const task = async (): Promise<ITransportResponse> => {
+        const next = responses[Math.min(state.attempts++, responses.length - 1)];
+        return typeof next === 'number' ? { url: PAGE, status: next, headers: {}, body: '' } : next;
+    };
+    return { state, task };
+}
+
+test('5xx responses are retried with exponential backoff', async () => {
+    const queue = new RequestQueue({ interval: 0, retries: 3, backoff: 5 });
+    const { state, task } = respond(503, 500, 200);
+    const delays: number[] = [];
+
+    const response = await queue.run(task, { url: PAGE, onRetry: (attempt, delay) => delays.push(delay) });
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(state.attempts, 3);
+    assert.deepStrictEqual(delays, [5, 10]);
+});
+
+test('429 responses wait for Retry-After, capped by maxBackoff, and fail with a RateLimitError', async () => {
+    const queue = new RequestQueue({ interval: 0, retries: 1, backoff: 5, maxBackoff: 20 });
+    const { state, task } = respond({ url: PAGE, status: 429, headers: { 'retry-after': '3' }, body: '' });
+    const delays: number[] = [];
+
+    await assert.rejects(queue.run(task, { url: PAGE, subject: 'CSCI', term: 202420, onRetry: (attempt, delay) => delays.push(delay) }),
+        (e: RateLimitError) => e instanceof RateLimitError && e.code === 'RATE_LIMITED' && e.attempts === 2 && e.subject === 'CSCI');
+    assert.strictEqual(state.attempts, 2);
+    assert.deepStrictEqual(delays, [20]);
+    assert.strictEqual(RequestQueue.parseRetryAfter('2'), 2000);
+    assert.strictEqual(RequestQueue.parseRetryAfter('soon'), null);
+});
+
+test('other 4xx responses are not retried', async () => {
+    const { state, task } = respond(404, 200);
+
+    await assert.rejects(new RequestQueue({ interval: 0, backoff: 5 }).run(task, { url: PAGE }),
+        (e: RequestError) => e instanceof RequestError && e.status === 404 && e.attempts === 1);
+    assert.strictEqual(state.attempts, 1);
+});
+
+test('attempts which take too long are abandoned and retried', async () => {
+    const queue = new RequestQueue({ interval: 0, retries: 1, backoff: 1, timeout: 20 });
+    const signals: AbortSignal[] = [];
+    const hang = (signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise<ITransportResponse>(() => {});
+    };
+
+    await assert.rejects(queue.run(hang, { url: PAGE }), /failed after 2 attempt\(s\): Timed out after 20ms/);
+    assert.strictEqual(signals.length, 2);
+    assert.ok(signals.every(signal => signal.aborted));
+});
+
+test('requests are spaced by the interval and bounded by the concurrency', async () => {
+    const queue = new RequestQueue({ interval: 30, concurrency: 2 });
+    const starts: number[] = [];
+    let active = 0, peak = 0;
+    const task = async (): Promise<ITransportResponse> => {
+        starts.push(Date.now());
+        peak = Math.max(peak, ++active);
+        await RequestQueue.sleep(50);
+        active--;
+        return { url: PAGE, status: 200, headers: {}, body: '' };
+    };
+
+    await Promise.all([1, 2, 3, 4].map(() => queue.run(task, { url: PAGE })));
+
+    assert.strictEqual(peak, 2);
+    for (let i = 1; i < starts.length; i++) assert.ok(starts[i] - starts[i - 1] >= 25, `${starts[i] - starts[i - 1]}ms between requests`);
+});
+
+test('aborting cancels a request waiting for its retry', async () => {
+    const controller = new AbortController();
+    const { task } = respond(503);
+    const running = new RequestQueue({ interval: 0, backoff: 10000 }).run(task, { url: PAGE, signal: controller.signal, onRetry: () => controller.abort() });
+
+    await assert.rejects(running, AbortError);
+});
+
+test('the scraper retries failed requests through its queue', async () => {
+    const replay = new ReplayTransport(path.join(__dirname, 'fixtures'));
+    let failures = 1;
+    const flaky: ITransport = {
+        offline: true,
+        request: (url, options) => failures-- > 0 ? Promise.reject(new Error('socket hang up')) : replay.request(url, options)
+    };
+    const scraper = new Scraper('abcdef@wm.edu', 0, flaky, { retries: 1, backoff: 1 });
+    const retries: string[] = [];
+    scraper.on('requestEnd', event => { if (event.error) retries.push(event.error); });
+
+    await scraper.getCourseData({ subject: 'CSCI', term: 202420 });
+
+    assert.deepStrictEqual(retries, ['socket hang up']);
+    assert.strictEqual(scraper.classData.length, 2);
+});
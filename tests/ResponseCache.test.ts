@@ -0,0 +1,69 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {ReplayTransport, ResponseCache, Scraper} from "../scraper";
+import {ITransport, ITransportOptions, ITransportResponse} from "../interfaces/ITransport";
+
+const { test } = require('node:test');
+
+/**
+ * Serves the fixtures with an ETag and answers 304 Not Modified to requests which send it back.
+ */
+class RevalidatingTransport implements ITransport {
+    public readonly offline = true;
+    public requests: { url: string, ifNoneMatch: string }[] = [];
+    private _replay = new ReplayTransport(path.join(__dirname, 'fixtures'));
+
+    public async request(url: string, options: ITransportOptions): Promise<ITransportResponse> {
+        const ifNoneMatch = options.headers?.['If-None-Match'] ?? null;
+        this.requests.push({ url, ifNoneMatch });
+
+        const response = await this._replay.request(url, options);
+        if (ifNoneMatch === '"v1"') return { url, status: 304, headers: { etag: '"v1"' }, body: '' };
+        return { ...response, headers: { ...response.headers, etag: '"v1"' } };
+    }
+}
+
+const scrape = async (cache: ResponseCache) => {
+    const transport = new RevalidatingTransport();
+    const scraper = new Scraper('abcdef@wm.edu', 0, transport, { retries: 0 });
+    scraper.cache = cache;
+    await scraper.getCourseData({ subject: 'CSCI', term: 202420 });
+    return { scraper, requests: transport.requests };
+};
+const temporary = () => fs.mkdtempSync(path.join(os.tmpdir(), 'wm-cache-'));
+
+test('fresh pages are served from the cache without a request', async () => {
+    const directory = temporary();
+    const first = await scrape(new ResponseCache(directory));
+    assert.ok(first.requests.length > 0);
+    assert.ok(first.requests.every(request => request.ifNoneMatch === null));
+
+    const cache = new ResponseCache(directory);
+    const second = await scrape(cache);
+    assert.deepStrictEqual(second.requests, []);
+    assert.deepStrictEqual(cache.stats, { hits: first.requests.length, misses: 0, revalidated: 0, stored: 0 });
+    assert.deepStrictEqual(second.scraper.classData.map(classEntry => classEntry.toJSON()), first.scraper.classData.map(classEntry => classEntry.toJSON()));
+});
+
+test('stale pages are revalidated with their ETag and served from the cache on 304 Not Modified', async () => {
+    const directory = temporary();
+    const first = await scrape(new ResponseCache(directory));
+
+    const cache = new ResponseCache(directory, { ttl: { courseInfo: 0, results: 0 } });
+    const second = await scrape(cache);
+    assert.deepStrictEqual(second.requests, first.requests.map(request => ({ ...request, ifNoneMatch: '"v1"' })));
+    assert.deepStrictEqual(cache.stats, { hits: 0, misses: 0, revalidated: first.requests.length, stored: 0 });
+    assert.deepStrictEqual(second.scraper.classData.map(classEntry => classEntry.crn), ['20001', '20002']);
+});
+
+test('forceRefresh requests every page again and saves the responses', async () => {
+    const directory = temporary();
+    const first = await scrape(new ResponseCache(directory));
+
+    const cache = new ResponseCache(directory, { forceRefresh: true });
+    const second = await scrape(cache);
+    assert.deepStrictEqual(second.requests, first.requests);
+    assert.deepStrictEqual(cache.stats, { hits: 0, misses: first.requests.length, revalidated: 0, stored: first.requests.length });
+});
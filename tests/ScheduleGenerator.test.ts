@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import {Class} from "../classes/Class";
+import {ScheduleGenerator} from "../classes/ScheduleGenerator";
+import {IScheduleOptions} from "../interfaces/ISchedule";
+
+const { test } = require('node:test');
+
+// Three courses with a section at every hour of the week, so that there are 24^3 combinations.
+const sections = ['CSCI 141', 'MATH 112', 'PHYS 101'].flatMap((course, c) => ['M', 'T', 'W', 'R', 'F'].flatMap(day =>
+    [8, 9, 10, 11, 12, 13, 14].map(hour => `${day}:${String(hour).padStart(2, '0')}00-${String(hour).padStart(2, '0')}50`)
+).slice(0, 24).map((times, s) => new Class(String(c * 100 + s), `${course} ${String(s + 1).padStart(2, '0')}`, [], 'Title', 'Smith, John', 3, times, 10, 5, 5, 'OPEN', 202420, course.split(' ')[0])));
+
+test('a limit returns the best schedules of the full ranking', () => {
+    const generator = new ScheduleGenerator(sections);
+    const courses = ['CSCI 141', 'MATH 112', 'PHYS 101'];
+    const options: IScheduleOptions = { rankBy: ['fewestDays', 'lateStart'] };
+
+    const all = generator.generate(courses, options);
+    assert.strictEqual(all.length, 24 * 23 * 22);
+    assert.deepStrictEqual(generator.generate(courses, { ...options, limit: 5 }), all.slice(0, 5));
+});
+
+test('the search stops after maxSchedules schedules', () => {
+    const generator = new ScheduleGenerator(sections);
+    assert.strictEqual(generator.generate(['CSCI 141', 'MATH 112', 'PHYS 101'], { maxSchedules: 100 }).length, 100);
+    assert.throws(() => generator.generate(['CSCI 141'], { maxSchedules: 0 }), /maxSchedules/);
+});
+
+test('sections are matched by course ID with or without the section number', () => {
+    const generator = new ScheduleGenerator(sections);
+
+    assert.strictEqual(generator.sectionsOf(' csci  141 ').length, 24);
+    assert.deepStrictEqual(generator.sectionsOf('CSCI 141 03').map(section => section.crn), ['2']);
+    assert.deepStrictEqual(generator.sectionsOf('CSCI 14'), []);
+});
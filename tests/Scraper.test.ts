@@ -0,0 +1,47 @@
+import * as assert from "assert";
+import * as path from "path";
+import {Scraper} from "../scraper";
+import {run} from "../cli";
+
+const { test } = require('node:test');
+
+const CLASSES = path.join(__dirname, 'fixtures', 'classes.csv');
+
+/**
+ * Runs the CLI and returns its exit code with what it printed.
+ */
+async function cli(...argv: string[]): Promise<{ code: number, stdout: string, stderr: string }> {
+    const { log, error } = console;
+    let stdout = '', stderr = '';
+    console.log = (...values: unknown[]) => stdout += values.join(' ') + '\n';
+    console.error = (...values: unknown[]) => stderr += values.join(' ') + '\n';
+
+    try {
+        const code = await run([...argv, '--user-agent', 'abcdef@wm.edu']);
+        return { code, stdout, stderr };
+    } finally {
+        console.log = log;
+        console.error = error;
+    }
+}
+
+test('numeric findClassesBy*() methods never match unknown values', async () => {
+    const scraper = new Scraper('abcdef@wm.edu');
+    await scraper.loadFromCsv(CLASSES);
+    assert.strictEqual(scraper.findClassByCrn('20002').seatsAvailable, null);
+
+    assert.deepStrictEqual(scraper.findClassesByCredits(4).map(classEntry => classEntry.crn), ['20001']);
+    assert.deepStrictEqual(scraper.findClassesBySeatsAvailable(0).map(classEntry => classEntry.crn), ['20001']);
+    assert.deepStrictEqual(scraper.findClassesByCurrentEnrollment(NaN), []);
+});
+
+test('find matches numbers given on the command line and rejects values which are not numbers', async () => {
+    const found = await cli('find', CLASSES, '--seats-available', '0', '--json');
+    assert.strictEqual(found.code, 0);
+    assert.deepStrictEqual(JSON.parse(found.stdout).map(classEntry => classEntry._crn), [20001]);
+
+    const invalid = await cli('find', CLASSES, '--credits', 'four');
+    assert.strictEqual(invalid.code, 2);
+    assert.match(invalid.stderr, /--credits must be a number\. You passed "four"\./);
+    assert.strictEqual(invalid.stdout, '');
+});
@@ -0,0 +1,39 @@
+import * as assert from "assert";
+import * as path from "path";
+import {ReplayTransport, Scraper} from "../scraper";
+
+const { test } = require('node:test');
+
+const scraper = async () => {
+    const scraper = new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 });
+    await scraper.getCourseData({ term: 202420 });
+    return scraper;
+};
+
+const crns = (results: { classEntry: { crn: string } }[]) => results.map(result => result.classEntry.crn);
+
+test('sections matching more words of the query rank first', async () => {
+    const results = (await scraper()).search('c100 calculus');
+
+    assert.deepStrictEqual(crns(results), ['30001', '20001']);
+    assert.deepStrictEqual(results.map(result => result.matched), [2, 1]);
+    assert.deepStrictEqual(results[0].fields, ['attributes', 'title']);
+});
+
+test('partial words, course IDs written together and typos are matched', async () => {
+    const classes = await scraper();
+
+    assert.deepStrictEqual(crns(classes.search('comput prob')), ['20001']);
+    assert.deepStrictEqual(crns(classes.search('csci241')), ['20002']);
+    assert.deepStrictEqual(crns(classes.search('smtih')), ['20001']);
+    assert.deepStrictEqual(crns(classes.search('data strcutures')), ['20002']);
+    assert.deepStrictEqual(crns(classes.search('smtih', { fuzzy: false })), []);
+});
+
+test('the term and limit options narrow the results', async () => {
+    const classes = await scraper();
+
+    assert.deepStrictEqual(crns(classes.search('c100', { limit: 1 })), ['20001']);
+    assert.deepStrictEqual(classes.search('c100', { term: 202410 }), []);
+    assert.throws(() => classes.search('c100', { limit: 0 }), /positive integer/);
+});
@@ -0,0 +1,75 @@
+import * as assert from "assert";
+import * as http from "http";
+import * as path from "path";
+import {AddressInfo} from "net";
+import {NetworkError, ReplayTransport, Scraper, SeatWatcher} from "../scraper";
+import {ILogger} from "../interfaces/ILogger";
+
+const { test } = require('node:test');
+
+/**
+ * Starts a local webhook which answers every request with the given status, and records the bodies it received.
+ */
+async function webhook(status: number): Promise<{ url: string, received: string[], close: () => Promise<void> }> {
+    const received: string[] = [];
+    const server = http.createServer((request, response) => {
+        let body = '';
+        request.on('data', chunk => body += chunk);
+        request.on('end', () => {
+            received.push(body);
+            response.writeHead(status).end();
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    return { url, received, close: () => new Promise<void>(resolve => server.close(() => resolve())) };
+}
+
+/**
+ * Returns a scraper of the CSCI fixture whose CRN 20001 had no seats, so that the next poll opens a seat.
+ */
+async function scraperWithFullSection(logger?: ILogger): Promise<Scraper> {
+    const scraper = new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 }, logger);
+    await scraper.getCourseData({ subject: 'CSCI', term: 202420 });
+    scraper.findClassByCrn('20001').seatsAvailable = 0;
+    return scraper;
+}
+
+test('failed webhook deliveries are logged without an error listener', async () => {
+    const hook = await webhook(500);
+    const logged: string[] = [];
+    const logger: ILogger = { error: message => logged.push(message), warn: () => {}, info: () => {}, debug: () => {} };
+    const scraper = await scraperWithFullSection(logger);
+    scraper.logging = false;
+
+    try {
+        const events = await new SeatWatcher(scraper, { crns: ['20001'], webhook: { url: hook.url } }).poll();
+
+        assert.deepStrictEqual(events.map(event => event.type), ['seatOpened']);
+        assert.strictEqual(JSON.parse(hook.received[0]).crn, '20001');
+        assert.strictEqual(logged.length, 1);
+        assert.match(logged[0], /Webhook delivery to .*\/hook failed: HTTP 500/);
+    } finally {
+        await hook.close();
+    }
+});
+
+test('failed webhook deliveries are emitted to error listeners', async () => {
+    const hook = await webhook(503);
+    const logged: string[] = [];
+    const logger: ILogger = { error: message => logged.push(message), warn: () => {}, info: () => {}, debug: () => {} };
+    const watcher = new SeatWatcher(await scraperWithFullSection(logger), { crns: ['20001'], webhook: { url: hook.url } });
+    const errors: Error[] = [];
+    watcher.on('error', error => errors.push(error));
+
+    try {
+        await watcher.poll();
+
+        assert.strictEqual(errors.length, 1);
+        assert.ok(errors[0] instanceof NetworkError);
+        assert.deepStrictEqual(logged, []);
+    } finally {
+        await hook.close();
+    }
+});
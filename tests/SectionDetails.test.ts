@@ -0,0 +1,65 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {Class} from "../classes/Class";
+import {ReplayTransport, Scraper, SectionDetails} from "../scraper";
+import {ITransport, ITransportResponse} from "../interfaces/ITransport";
+
+const { test } = require('node:test');
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+test('parse reads labels from table rows', () => {
+    assert.deepStrictEqual(SectionDetails.parse(fixture('courselist_courseinfo_addInfo_fterm=202420_fcrn=20001.html')), {
+        description: 'Fundamental computational problem solving techniques.\nIncludes a weekly lab.',
+        prerequisites: 'None',
+        location: 'ISC 1221',
+        building: 'ISC',
+        levelRestrictions: ['Undergraduate'],
+        majorRestrictions: ['Computer Science', 'Data Science'],
+        comments: 'Lab sections are listed separately.'
+    });
+});
+
+test('parse reads labels from headings and bold text', () => {
+    assert.deepStrictEqual(SectionDetails.parse(fixture('courselist_courseinfo_addInfo_fterm=202420_fcrn=20002.html')), {
+        description: 'Abstract data types and their implementation.',
+        prerequisites: 'CSCI 141 with a grade of C- or better',
+        location: 'Integrated Science Center 1111',
+        building: 'Integrated Science Center',
+        levelRestrictions: ['Undergraduate'],
+        majorRestrictions: [],
+        comments: null
+    });
+});
+
+test('the fallback URL matches the links of the search results', async () => {
+    const scraper = new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 });
+    await scraper.getCourseData({ subject: 'CSCI', term: 202420 });
+    const linked = scraper.classData.map(classEntry => classEntry.detailUrl);
+
+    assert.deepStrictEqual(linked, scraper.classData.map(classEntry => scraper.adapter.detailUrl(classEntry.term, classEntry.crn)));
+    assert.strictEqual(scraper.adapter.detailUrl(202420, '20001'), 'https://courselist.wm.edu/courselist/courseinfo/addInfo?fterm=202420&fcrn=20001');
+
+    // Sections loaded from files have no link and use the fallback URL.
+    const loaded = new Class('20002', 'CSCI 241 01', [], 'Data Structures', 'Doe, Jane', 3, 'TR:1100-1220', 35, 35, 0, 'CLOSED', 202420, 'CSCI');
+    await scraper.getSectionDetails([loaded]);
+    assert.strictEqual(loaded.prerequisites, 'CSCI 141 with a grade of C- or better');
+});
+
+test('the first failure cancels the remaining detail requests', async () => {
+    let sent = 0;
+    const transport: ITransport = {
+        offline: true,
+        request: async (url: string): Promise<ITransportResponse> => {
+            sent++;
+            await new Promise(resolve => setTimeout(resolve, 5));
+            return { url, status: sent === 2 ? 404 : 200, headers: {}, body: '<p></p>' };
+        }
+    };
+    const scraper = new Scraper('abcdef@wm.edu', 0, transport, { retries: 0, concurrency: 2 });
+    const classes = Array.from({ length: 40 }, (_, i) => new Class(String(10000 + i), 'CSCI 141 01', [], 'Title', 'Smith, John', 4, 'TBA', 10, 5, 5, 'OPEN', 202420, 'CSCI'));
+
+    await assert.rejects(scraper.getSectionDetails(classes), { code: 'NETWORK_ERROR', status: 404 });
+    assert.ok(sent <= 3, `${sent} requests were sent`);
+});
@@ -0,0 +1,33 @@
+import * as assert from "assert";
+import {Class} from "../classes/Class";
+import {JsonFormat, SnapshotDiff, ValidationError} from "../scraper";
+
+const { test } = require('node:test');
+
+const section = (crn: string, seatsAvailable: number, term: number = 202420) => new Class(crn, 'CSCI 141 01', [], 'Computational Problem Solving', 'Smith, John', 4, 'MWF:0900-0950', 30, 25, seatsAvailable, seatsAvailable > 0 ? 'OPEN' : 'CLOSED', term, 'CSCI');
+
+test('changes of the same section are reported by field', () => {
+    const diff = new SnapshotDiff([section('20001', 1), section('20002', 5)], [section('20001', 0), section('20003', 5)]);
+
+    assert.deepStrictEqual(diff.removed.map(change => change.crn), ['20002']);
+    assert.deepStrictEqual(diff.added.map(change => change.crn), ['20003']);
+    assert.deepStrictEqual(diff.changed[0].changes, [
+        { field: 'seatsAvailable', before: 1, after: 0 },
+        { field: 'status', before: 'OPEN', after: 'CLOSED' }
+    ]);
+});
+
+test('a version 1 file without terms is compared to a current scrape by CRN', () => {
+    const saved = section('20001', 1).toJSON();
+    delete saved._term;
+    const { classes: old } = JsonFormat.parse(JSON.stringify([{ ...saved, _status: true }]));
+    assert.strictEqual(old[0].term, null);
+
+    const diff = new SnapshotDiff(old, [section('20001', 0)]);
+    assert.deepStrictEqual(diff.changes.map(change => [change.type, change.crn]), [['CHANGED', '20001']]);
+});
+
+test('snapshots without terms are not compared to several terms', () => {
+    assert.throws(() => new SnapshotDiff([section('20001', 1, null)], [section('20001', 1, 202410), section('20001', 1, 202420)]),
+        (e: ValidationError) => e instanceof ValidationError && /single term/.test(e.message));
+});
@@ -0,0 +1,47 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {ReplayTransport, Scraper, StreamWriter} from "../scraper";
+
+const { test } = require('node:test');
+
+const scraper = () => new Scraper('abcdef@wm.edu', 0, new ReplayTransport(path.join(__dirname, 'fixtures')), { retries: 0 });
+const temporary = () => fs.mkdtempSync(path.join(os.tmpdir(), 'wm-stream-'));
+
+test('a streamed scrape is written as NDJSON and loaded again', async () => {
+    const file = path.join(temporary(), 'courses.ndjson');
+    const writer = new StreamWriter(file);
+
+    assert.strictEqual(await writer.writeAll(scraper().scrape({ term: 202420 })), 3);
+    await writer.close();
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    assert.deepStrictEqual(lines.map(line => JSON.parse(line)._crn), [20001, 20002, 30001]);
+
+    // A scrape interrupted in the middle of a line leaves the classes before it readable.
+    fs.appendFileSync(file, lines[0].slice(0, 40));
+    const loaded = scraper();
+    await loaded.loadFromNdjson(file);
+    assert.deepStrictEqual(loaded.classData.map(classEntry => classEntry.crn), ['20001', '20002', '30001']);
+});
+
+test('appending to a CSV file writes the header once', async () => {
+    const file = path.join(temporary(), 'courses.csv');
+    const source = scraper();
+    await source.getCourseData({ term: 202420 });
+
+    for (const classEntry of source.classData) {
+        const writer = new StreamWriter(file, { append: true });
+        await writer.write(classEntry);
+        assert.strictEqual(writer.count, 1);
+        await writer.close();
+    }
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\r\n');
+    assert.strictEqual(lines.filter(line => line.startsWith('crn,')).length, 1);
+
+    const loaded = scraper();
+    await loaded.loadFromCsv(file);
+    assert.deepStrictEqual(loaded.classData.map(classEntry => classEntry.toJSON()), source.classData.map(classEntry => ({ ...classEntry.toJSON(), _detailUrl: null }))); // Links to detail pages are only saved to JSON.
+});